@@ -5,22 +5,45 @@
  * @format
  */
 
-import React from 'react';
+import React, {useEffect} from 'react';
 import {StatusBar, StyleSheet} from 'react-native';
 import AvatarScreen from './src/components/AvatarScreen';
 import SettingsScreen from './src/components/SettingsScreen';
+import SignInScreen from './src/components/SignInScreen';
+import DiagnosticsScreen from './src/components/DiagnosticsScreen';
+import HistoryScreen from './src/components/HistoryScreen';
+import MemoryScreen from './src/components/MemoryScreen';
 import {NavigationContainer} from '@react-navigation/native';
 import {createStackNavigator} from '@react-navigation/stack';
+import {logger} from './src/services/Logger';
 
 const Stack = createStackNavigator();
 
+// expo-gl and three.js log every GL call while the avatar renders
+const GL_CONSOLE_NOISE = [
+  'EXGL:',
+  'gl.pixelStorei',
+  'gl.getParameter',
+  'WebGL',
+  'THREE.WebGLRenderer',
+  'THREE.WebGLProgram',
+  'THREE.WebGLShader',
+];
+
 function App(): React.JSX.Element {
+  // Keep GL noise out of the console; it is discarded unless logging is at trace
+  useEffect(() => logger.routeConsoleNoise('avatar', GL_CONSOLE_NOISE), []);
+
   return (
     <NavigationContainer>
       <StatusBar hidden />
       <Stack.Navigator screenOptions={{headerShown: false}}>
         <Stack.Screen name="Avatar" component={AvatarScreen} />
         <Stack.Screen name="Settings" component={SettingsScreen} />
+        <Stack.Screen name="SignIn" component={SignInScreen} />
+        <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+        <Stack.Screen name="History" component={HistoryScreen} />
+        <Stack.Screen name="Memory" component={MemoryScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,131 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  AuthService,
+  AuthSession,
+  AuthSessionStore,
+  AuthState,
+} from '../src/services/AuthService';
+import {AuthTokensResponse, BackendError} from '../src/services/BackendClient';
+
+jest.mock('react-native-config', () => ({}));
+
+jest.mock('react-native-keychain', () => ({
+  ACCESSIBLE: {},
+  getGenericPassword: jest.fn(),
+  setGenericPassword: jest.fn(),
+  resetGenericPassword: jest.fn(),
+}));
+
+const USER = {id: 'user_1', email: 'kid@example.test'};
+
+const tokens = (n: number, expiresIn = 900): AuthTokensResponse => ({
+  accessToken: `access-${n}`,
+  refreshToken: `refresh-${n}`,
+  expiresIn,
+  user: USER,
+});
+
+const createAuth = (stored: AuthSession | null = null) => {
+  const store = {
+    load: jest.fn(async () => stored),
+    save: jest.fn(async (_session: AuthSession) => {}),
+    clear: jest.fn(async () => {}),
+  } satisfies AuthSessionStore;
+  const backend = {
+    requestSignInCode: jest.fn(async (_email: string) => {}),
+    verifySignInCode: jest.fn(async (_email: string, _code: string) =>
+      tokens(1),
+    ),
+    refreshSession: jest.fn(async (_refreshToken: string) => tokens(2)),
+    revokeSession: jest.fn(async (_refreshToken: string) => {}),
+  };
+  const auth = new AuthService({backend, store});
+  const states: AuthState['status'][] = [];
+  auth.subscribe(state => states.push(state.status));
+  return {auth, store, backend, states};
+};
+
+const expiredSession: AuthSession = {
+  accessToken: 'access-0',
+  refreshToken: 'refresh-0',
+  expiresAt: Date.now() - 1000,
+  user: USER,
+};
+
+describe('auth service', () => {
+  it('signs in with an emailed code and keeps the tokens in the store', async () => {
+    const {auth, store, backend, states} = createAuth();
+    await auth.restore();
+
+    await auth.requestCode(' Kid@Example.test ');
+    await auth.signIn('Kid@Example.test', ' 123456 ');
+
+    expect(backend.requestSignInCode).toHaveBeenCalledWith('kid@example.test');
+    expect(backend.verifySignInCode).toHaveBeenCalledWith(
+      'kid@example.test',
+      '123456',
+    );
+    expect(store.save).toHaveBeenCalledWith(
+      expect.objectContaining({accessToken: 'access-1'}),
+    );
+    expect(states).toEqual(['signed-out', 'signed-in']);
+    await expect(auth.getAccessToken()).resolves.toBe('access-1');
+  });
+
+  it('refreshes an expired access token once for concurrent callers', async () => {
+    const {auth, backend, store} = createAuth(expiredSession);
+
+    const results = await Promise.all([
+      auth.getAccessToken(),
+      auth.getAccessToken(),
+    ]);
+
+    expect(results).toEqual(['access-2', 'access-2']);
+    expect(backend.refreshSession).toHaveBeenCalledTimes(1);
+    expect(backend.refreshSession).toHaveBeenCalledWith('refresh-0');
+    expect(store.save).toHaveBeenCalledWith(
+      expect.objectContaining({refreshToken: 'refresh-2'}),
+    );
+  });
+
+  it('signs out when the refresh token is rejected', async () => {
+    const {auth, backend, store, states} = createAuth(expiredSession);
+    backend.refreshSession.mockRejectedValueOnce(
+      new BackendError('http', 'Request failed with status 401', 401),
+    );
+
+    await expect(auth.getAccessToken()).resolves.toBeNull();
+
+    expect(store.clear).toHaveBeenCalled();
+    expect(states).toEqual(['signed-in', 'signed-out']);
+  });
+
+  it('keeps the session when the refresh fails on the network', async () => {
+    const {auth, backend, store} = createAuth(expiredSession);
+    backend.refreshSession.mockRejectedValueOnce(
+      new BackendError('network', 'Network Error'),
+    );
+
+    await expect(auth.getAccessToken()).rejects.toMatchObject({
+      kind: 'network',
+    });
+
+    expect(store.clear).not.toHaveBeenCalled();
+    expect(auth.getState().status).toBe('signed-in');
+  });
+
+  it('forgets the tokens and revokes the session on sign-out', async () => {
+    const {auth, backend, store} = createAuth(expiredSession);
+    await auth.restore();
+
+    await auth.signOut();
+
+    expect(store.clear).toHaveBeenCalled();
+    expect(backend.revokeSession).toHaveBeenCalledWith('refresh-0');
+    await expect(auth.getAccessToken()).resolves.toBeNull();
+  });
+});
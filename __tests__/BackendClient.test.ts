@@ -0,0 +1,225 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it, jest} from '@jest/globals';
+import {AxiosError, AxiosHeaders} from 'axios';
+import {
+  BackendClient,
+  BackendError,
+  BackendHttpClient,
+  BackendProfile,
+  getBackendProfile,
+} from '../src/services/BackendClient';
+
+// Profiles under test are passed in explicitly
+jest.mock('react-native-config', () => ({}));
+
+const PROFILE: BackendProfile = {
+  environment: 'staging',
+  baseUrl: 'https://api.example.test',
+  timeoutMs: 1000,
+  maxRetries: 3,
+  retryBaseDelayMs: 100,
+  allowInsecureHttp: false,
+};
+
+const KEY_RESPONSE = {
+  status: 200,
+  data: {success: true, data: {ephemeralKey: 'ek_1', expiresAt: 1700000000}},
+};
+
+const httpError = (status: number) =>
+  new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD',
+    {
+      headers: new AxiosHeaders(),
+    },
+    undefined,
+    {
+      status,
+      statusText: '',
+      data: {},
+      headers: {},
+      config: {headers: new AxiosHeaders()},
+    },
+  );
+
+const createClient = (
+  responses: Array<{status: number; data: unknown} | Error>,
+  profile: Partial<BackendProfile> = {},
+) => {
+  const post = jest.fn<BackendHttpClient['post']>();
+  responses.forEach(response => {
+    if (response instanceof Error) {
+      post.mockRejectedValueOnce(response);
+    } else {
+      post.mockResolvedValueOnce(response);
+    }
+  });
+  const sleep = jest.fn(async (_ms: number) => {});
+  const auth = {
+    getAccessToken: jest.fn(async (): Promise<string | null> => 'access-1'),
+    refreshAccessToken: jest.fn(async (): Promise<string | null> => 'access-2'),
+  };
+  const client = new BackendClient(
+    {...PROFILE, ...profile},
+    {http: {post}, auth, sleep},
+  );
+  return {client, post, sleep, auth};
+};
+
+const KEY_REQUEST = {model: 'gpt-realtime', voice: 'alloy'};
+
+describe('backend profiles', () => {
+  it('reads the environment and URL from the build config', () => {
+    const profile = getBackendProfile({
+      APP_ENV: 'staging',
+      BACKEND_URL: 'https://staging.example.test/',
+    });
+
+    expect(profile).toMatchObject({
+      environment: 'staging',
+      baseUrl: 'https://staging.example.test',
+      allowInsecureHttp: false,
+    });
+  });
+
+  it('points development at the local stand-in server by default', () => {
+    const profile = getBackendProfile({APP_ENV: 'development'});
+
+    expect(profile.baseUrl).toBe('http://localhost:8787');
+    expect(profile.allowInsecureHttp).toBe(true);
+  });
+
+  it('refuses plain http outside development', async () => {
+    const {client, post} = createClient([KEY_RESPONSE], {
+      baseUrl: 'http://api.example.test',
+    });
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).rejects.toMatchObject({
+      kind: 'config',
+    });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
+
+describe('ephemeral keys', () => {
+  it("posts the request with the user's access token and a timeout", async () => {
+    const {client, post} = createClient([KEY_RESPONSE]);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).resolves.toEqual({
+      ephemeralKey: 'ek_1',
+      expiresAt: 1700000000,
+    });
+    expect(post).toHaveBeenCalledWith(
+      'https://api.example.test/api/openai/ephemeral-key',
+      KEY_REQUEST,
+      {
+        headers: {
+          Authorization: 'Bearer access-1',
+          'Content-Type': 'application/json',
+        },
+        timeout: 1000,
+      },
+    );
+  });
+
+  it('rejects a response without a key', async () => {
+    const {client, post} = createClient([
+      {status: 200, data: {success: true, data: {}}},
+    ]);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).rejects.toMatchObject({
+      kind: 'invalid-response',
+      retryable: false,
+    });
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('authentication', () => {
+  it('refreshes a rejected access token and tries again', async () => {
+    const {client, post, auth} = createClient([httpError(401), KEY_RESPONSE]);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).resolves.toMatchObject({
+      ephemeralKey: 'ek_1',
+    });
+    expect(auth.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[1][2].headers.Authorization).toBe('Bearer access-2');
+  });
+
+  it('fails as unauthenticated when the session is over', async () => {
+    const {client, auth} = createClient([httpError(401)]);
+    auth.refreshAccessToken.mockResolvedValueOnce(null);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).rejects.toMatchObject({
+      kind: 'unauthenticated',
+    });
+  });
+
+  it('does not send anything when nobody is signed in', async () => {
+    const {client, post, auth} = createClient([KEY_RESPONSE]);
+    auth.getAccessToken.mockResolvedValueOnce(null);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).rejects.toMatchObject({
+      kind: 'unauthenticated',
+    });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('leaves the token off the sign-in requests', async () => {
+    const {client, post, auth} = createClient([
+      {status: 200, data: {success: true}},
+    ]);
+
+    await client.requestSignInCode('kid@example.test');
+
+    expect(auth.getAccessToken).not.toHaveBeenCalled();
+    expect(post.mock.calls[0][2].headers.Authorization).toBeUndefined();
+  });
+});
+
+describe('retries', () => {
+  it('backs off exponentially on 5xx and network errors', async () => {
+    const networkError = new AxiosError('Network Error', 'ERR_NETWORK');
+    const {client, post, sleep} = createClient([
+      httpError(502),
+      networkError,
+      httpError(503),
+      KEY_RESPONSE,
+    ]);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).resolves.toMatchObject({
+      ephemeralKey: 'ek_1',
+    });
+    expect(post).toHaveBeenCalledTimes(4);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 400]);
+  });
+
+  it('gives up after the last retry', async () => {
+    const timeout = new AxiosError(
+      'timeout of 1000ms exceeded',
+      'ECONNABORTED',
+    );
+    const {client, post} = createClient([timeout, timeout, timeout, timeout]);
+
+    const error = await client.getEphemeralKey(KEY_REQUEST).catch(e => e);
+
+    expect(error).toBeInstanceOf(BackendError);
+    expect(error.kind).toBe('timeout');
+    expect(post).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry client errors', async () => {
+    const {client, post} = createClient([httpError(429)]);
+
+    await expect(client.getEphemeralKey(KEY_REQUEST)).rejects.toMatchObject({
+      kind: 'http',
+      status: 429,
+      retryable: false,
+    });
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
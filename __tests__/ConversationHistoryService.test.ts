@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it, jest} from '@jest/globals';
+import {ConversationHistoryService} from '../src/services/ConversationHistoryService';
+import {ConversationTurn} from '../src/services/ConversationLog';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const PERSONA = {id: 'chatterbuddy', name: 'ChatterBuddy'};
+
+const turn = (
+  itemId: string,
+  role: ConversationTurn['role'],
+  text: string,
+  kind: ConversationTurn['kind'] = role === 'user' ? 'speech' : 'text',
+): ConversationTurn => ({
+  itemId,
+  role,
+  kind,
+  text,
+  isFinal: true,
+  startedAt: 1000,
+  updatedAt: 1000,
+});
+
+describe('conversation history', () => {
+  it('saves what was said, newest conversation first', async () => {
+    await ConversationHistoryService.clearConversations();
+
+    await ConversationHistoryService.saveConversation(
+      {
+        startedAt: 1000,
+        endedAt: 2000,
+        turns: [
+          turn('item_0', 'user', 'Say hello', 'prompt'),
+          turn('item_1', 'assistant', 'Hello there! '),
+          turn('item_2', 'user', 'My dog is called Biscuit'),
+          turn('item_3', 'user', '   '),
+        ],
+      },
+      PERSONA,
+    );
+    await ConversationHistoryService.saveConversation(
+      {startedAt: 5000, endedAt: 6000, turns: [turn('item_4', 'user', 'Hi')]},
+      PERSONA,
+    );
+
+    const [latest, first] = await ConversationHistoryService.getConversations();
+    expect(latest.startedAt).toBe(5000);
+    expect(first.persona).toEqual(PERSONA);
+    expect(first.turns).toEqual([
+      {role: 'assistant', text: 'Hello there!', at: 1000},
+      {role: 'user', text: 'My dog is called Biscuit', at: 1000},
+    ]);
+  });
+
+  it('skips calls where nothing was said', async () => {
+    await ConversationHistoryService.clearConversations();
+
+    const saved = await ConversationHistoryService.saveConversation(
+      {startedAt: 1000, endedAt: 2000, turns: [turn('item_1', 'user', '')]},
+      PERSONA,
+    );
+
+    expect(saved).toBeNull();
+    expect(await ConversationHistoryService.getConversations()).toEqual([]);
+  });
+
+  it('deletes a single conversation', async () => {
+    await ConversationHistoryService.clearConversations();
+    const kept = await ConversationHistoryService.saveConversation(
+      {startedAt: 1000, endedAt: 2000, turns: [turn('item_1', 'user', 'One')]},
+      PERSONA,
+    );
+    const removed = await ConversationHistoryService.saveConversation(
+      {startedAt: 3000, endedAt: 4000, turns: [turn('item_2', 'user', 'Two')]},
+      PERSONA,
+    );
+
+    await ConversationHistoryService.deleteConversation(removed!.id);
+
+    const conversations = await ConversationHistoryService.getConversations();
+    expect(conversations.map(record => record.id)).toEqual([kept!.id]);
+  });
+});
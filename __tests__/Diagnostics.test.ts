@@ -0,0 +1,104 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it, jest} from '@jest/globals';
+import {Group, Mesh, MeshStandardMaterial, AnimationClip} from 'three';
+import {DiagnosticsRecorder, describeScene} from '../src/services/Diagnostics';
+
+jest.mock('react-native-config', () => ({}));
+
+describe('diagnostics', () => {
+  it('keeps the latest events, redacted', () => {
+    const recorder = new DiagnosticsRecorder();
+
+    for (let i = 0; i < 310; i++) {
+      recorder.recordEvent('received', {type: `event.${i}`});
+    }
+    recorder.recordEvent('sent', {
+      type: 'session.update',
+      client_secret: {value: 'ek_abc123456789'},
+    } as {type: string});
+
+    const {events} = recorder.getSnapshot();
+    expect(events).toHaveLength(300);
+    expect(events[0].type).toBe('event.11');
+    expect(events[299]).toMatchObject({
+      direction: 'sent',
+      payload: {type: 'session.update', client_secret: '[redacted]'},
+    });
+  });
+
+  it('counts bursts of deltas so control events stay in the buffer', () => {
+    const recorder = new DiagnosticsRecorder();
+
+    recorder.recordEvent('sent', {type: 'response.create'});
+    recorder.recordEvent('received', {type: 'response.created'});
+    for (let i = 0; i < 1000; i++) {
+      recorder.recordEvent('sent', {type: 'input_audio_buffer.append'});
+      recorder.recordEvent('received', {
+        type: 'response.audio.delta',
+        response_id: 'resp_1',
+      } as {type: string});
+      recorder.recordEvent('received', {
+        type: 'response.audio_transcript.delta',
+        response_id: 'resp_1',
+      } as {type: string});
+    }
+    recorder.recordEvent('received', {type: 'response.done'});
+    recorder.recordEvent('received', {
+      type: 'response.audio.delta',
+      response_id: 'resp_2',
+    } as {type: string});
+
+    const {events} = recorder.getSnapshot();
+    expect(events.map(event => [event.type, event.count])).toEqual([
+      ['response.create', 1],
+      ['response.created', 1],
+      ['input_audio_buffer.append', 1000],
+      ['response.audio.delta', 1000],
+      ['response.audio_transcript.delta', 1000],
+      ['response.done', 1],
+      ['response.audio.delta', 1],
+    ]);
+  });
+
+  it('describes the scene hierarchy and animation clips', () => {
+    const root = new Group();
+    root.name = 'Scene';
+    const body = new Mesh(undefined, new MeshStandardMaterial());
+    body.name = 'Body';
+    body.visible = false;
+    root.add(body);
+
+    const scene = describeScene(root, [new AnimationClip('Idle', 2.5, [])]);
+
+    expect(scene.nodes).toEqual([
+      {
+        name: 'Scene',
+        type: 'Group',
+        visible: true,
+        depth: 0,
+        material: undefined,
+      },
+      {
+        name: 'Body',
+        type: 'Mesh',
+        visible: false,
+        depth: 1,
+        material: 'MeshStandardMaterial',
+      },
+    ]);
+    expect(scene.animationClips).toEqual([{name: 'Idle', durationS: 2.5}]);
+  });
+
+  it('bundles the snapshot with the log export', () => {
+    const recorder = new DiagnosticsRecorder();
+    recorder.setLifecycle({status: 'connected'});
+
+    const bundle = recorder.buildBundle();
+
+    expect(bundle).toContain('"status": "connected"');
+    expect(bundle).toContain('==== Logs ====');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {createLogger, Logger, redact} from '../src/services/Logger';
+
+const createTestLogger = (threshold: 'trace' | 'debug' | 'info' = 'debug') => {
+  const target = new Logger({threshold, capacity: 3, writeToConsole: false});
+  return {target, log: createLogger('realtime', target)};
+};
+
+describe('logger', () => {
+  it('drops entries below the threshold', () => {
+    const {target, log} = createTestLogger('info');
+
+    log.trace('raw event');
+    log.debug('details');
+    log.info('connected');
+    log.warn('slow');
+
+    expect(target.getEntries().map(entry => entry.level)).toEqual([
+      'info',
+      'warn',
+    ]);
+  });
+
+  it('keeps only the latest entries, oldest first', () => {
+    const {target, log} = createTestLogger();
+
+    ['one', 'two', 'three', 'four', 'five'].forEach(message =>
+      log.info(message),
+    );
+
+    expect(target.getEntries().map(entry => entry.message)).toEqual([
+      'three',
+      'four',
+      'five',
+    ]);
+  });
+
+  it('redacts keys and tokens in messages and data', () => {
+    const {target, log} = createTestLogger();
+
+    log.info('Using key ek_abc123456789 with Bearer eyJhbGciOi.x-y');
+    log.debug('Response', {
+      data: {ephemeralKey: 'ek_abc123456789', expiresAt: 1700000000},
+      headers: {Authorization: 'Bearer eyJhbGciOi'},
+    });
+
+    const [message, response] = target.getEntries();
+    expect(message.message).toBe(
+      'Using key ek_[redacted] with Bearer [redacted]',
+    );
+    expect(response.data).toEqual([
+      {
+        data: {ephemeralKey: '[redacted]', expiresAt: 1700000000},
+        headers: {Authorization: '[redacted]'},
+      },
+    ]);
+  });
+
+  it('keeps token counts in usage while redacting tokens', () => {
+    const usage = {
+      total_tokens: 220,
+      input_tokens: 150,
+      output_tokens: 70,
+      input_token_details: {
+        cached_tokens: 0,
+        text_tokens: 20,
+        audio_tokens: 130,
+      },
+      output_token_details: {text_tokens: 10, audio_tokens: 60},
+    };
+
+    expect(
+      redact({
+        type: 'response.done',
+        response: {id: 'resp_1', usage},
+        session: {max_response_output_tokens: 4096, totalTokens: 220},
+        client_secret: {value: 'ek_abc123456789'},
+        access_token: 'abc',
+        refreshToken: 'def',
+        token: 'ghi',
+      }),
+    ).toEqual({
+      type: 'response.done',
+      response: {id: 'resp_1', usage},
+      session: {max_response_output_tokens: 4096, totalTokens: 220},
+      client_secret: '[redacted]',
+      access_token: '[redacted]',
+      refreshToken: '[redacted]',
+      token: '[redacted]',
+    });
+  });
+
+  it('trims long strings such as audio chunks', () => {
+    const redacted = redact({audio: 'A'.repeat(64000)}) as {audio: string};
+
+    expect(redacted.audio.length).toBeLessThan(600);
+    expect(redacted.audio).toMatch(/64000 chars\)$/);
+  });
+
+  it('routes matching console noise into the buffer until uninstalled', () => {
+    const {target} = createTestLogger('trace');
+    const originalLog = console.log;
+    const printed: unknown[][] = [];
+    console.log = (...args: unknown[]) => printed.push(args);
+
+    const uninstall = target.routeConsoleNoise('avatar', ['EXGL:']);
+    console.log('EXGL: gl.clear');
+    console.log('Avatar ready');
+    uninstall();
+    console.log('EXGL: after');
+    console.log = originalLog;
+
+    expect(target.getEntries().map(entry => entry.message)).toEqual([
+      'EXGL: gl.clear',
+    ]);
+    expect(printed).toEqual([['Avatar ready'], ['EXGL: after']]);
+  });
+
+  it('exports one line per entry with level and tag', () => {
+    const {target, log} = createTestLogger();
+
+    log.warn('Reconnect attempt 1 failed:', new Error('timeout'));
+
+    expect(target.export()).toMatch(
+      /^\d{4}-\d\d-\d\dT.+Z WARN \[realtime\] Reconnect attempt 1 failed: \[\{"name":"Error","message":"timeout"\}\]$/,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @format
+ */
+
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  formatMemories,
+  MemoryService,
+  parseSummaryAnswer,
+} from '../src/services/MemoryService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('memory', () => {
+  beforeEach(async () => {
+    await MemoryService.clearMemories();
+  });
+
+  it('reads the summary answer, even when wrapped in a code fence', () => {
+    expect(
+      parseSummaryAnswer(
+        '```json\n{"summary": "Talked about the interview.", "facts": ["Has a dog called Biscuit", 3, ""]}\n```',
+      ),
+    ).toEqual({
+      summary: 'Talked about the interview.',
+      facts: ['Has a dog called Biscuit'],
+    });
+    expect(parseSummaryAnswer('Sorry, I cannot do that.')).toBeNull();
+    expect(parseSummaryAnswer('{"summary": "", "facts": []}')).toBeNull();
+  });
+
+  it('remembers a call and does not store a fact twice', async () => {
+    await MemoryService.rememberConversation(
+      '{"summary": "Talked about Biscuit.", "facts": ["Has a dog called Biscuit", "Works at a bakery"]}',
+      'conversation_1',
+    );
+    await MemoryService.rememberConversation(
+      '{"summary": "Planned a walk.", "facts": ["has a dog called biscuit."]}',
+    );
+
+    const {facts, conversations} = await MemoryService.getRelevantMemories();
+    expect(facts.map(fact => fact.text)).toEqual([
+      'Has a dog called Biscuit',
+      'Works at a bakery',
+    ]);
+    expect(conversations.map(memory => memory.summary)).toEqual([
+      'Planned a walk.',
+      'Talked about Biscuit.',
+    ]);
+    expect(conversations[1].conversationId).toBe('conversation_1');
+  });
+
+  it('does not store a fact twice in other scripts either', async () => {
+    await MemoryService.addFacts(['Живёт в Москве', 'Arbeitet in München']);
+    await MemoryService.addFacts([
+      'живёт в Москве.',
+      'arbeitet in MÜNCHEN',
+      '東京に住んでいる',
+      '犬を飼っている',
+    ]);
+
+    const facts = await MemoryService.getFacts();
+    expect(facts.map(fact => fact.text)).toEqual([
+      '犬を飼っている',
+      '東京に住んでいる',
+      'Arbeitet in München',
+      'Живёт в Москве',
+    ]);
+  });
+
+  it('puts the memories that match the recent turns first', async () => {
+    await MemoryService.rememberConversation(
+      '{"summary": "Practised questions for the bakery interview.", "facts": ["Has a job interview at a bakery"]}',
+    );
+    await MemoryService.rememberConversation(
+      '{"summary": "Talked about the football match.", "facts": ["Supports Leeds United", "Has a dog called Biscuit"]}',
+    );
+
+    const latest = await MemoryService.getRelevantMemories();
+    expect(latest.facts[0].text).toBe('Has a dog called Biscuit');
+    expect(latest.conversations[0].summary).toBe(
+      'Talked about the football match.',
+    );
+
+    const relevant = await MemoryService.getRelevantMemories([
+      'The interview went well!',
+      'They liked my bread at the bakery.',
+    ]);
+    expect(relevant.facts.map(fact => fact.text)).toEqual([
+      'Has a job interview at a bakery',
+      'Has a dog called Biscuit',
+      'Supports Leeds United',
+    ]);
+    expect(relevant.conversations[0].summary).toBe(
+      'Practised questions for the bakery interview.',
+    );
+  });
+
+  it('edits and deletes facts', async () => {
+    await MemoryService.addFacts(['Has a cat', 'Lives in Leeds']);
+    const [livesIn, hasCat] = await MemoryService.getFacts();
+
+    await MemoryService.updateFact(hasCat.id, 'Has two cats');
+    await MemoryService.deleteFact(livesIn.id);
+
+    const facts = await MemoryService.getFacts();
+    expect(facts.map(fact => fact.text)).toEqual(['Has two cats']);
+  });
+
+  it('forgets the summary of a conversation deleted from history', async () => {
+    await MemoryService.rememberConversation(
+      '{"summary": "Talked about Biscuit.", "facts": ["Has a dog called Biscuit"]}',
+      'conversation_1',
+    );
+    await MemoryService.rememberConversation(
+      '{"summary": "Planned a walk.", "facts": []}',
+      'conversation_2',
+    );
+
+    await MemoryService.deleteConversationsFor('conversation_1');
+
+    const conversations = await MemoryService.getConversations();
+    expect(conversations.map(memory => memory.conversationId)).toEqual([
+      'conversation_2',
+    ]);
+    expect(await MemoryService.getFacts()).toHaveLength(1);
+  });
+
+  it('formats memories for the instructions', () => {
+    expect(formatMemories({facts: [], conversations: []})).toBe('');
+
+    const text = formatMemories({
+      facts: [
+        {
+          id: 'fact_1',
+          text: 'Has a dog called Biscuit',
+          createdAt: 0,
+          updatedAt: 0,
+        },
+      ],
+      conversations: [
+        {id: 'conversation_1', summary: 'Talked about Biscuit.', createdAt: 0},
+      ],
+    });
+    expect(text).toContain('- Has a dog called Biscuit');
+    expect(text).toContain(': Talked about Biscuit.');
+  });
+});
@@ -0,0 +1,1439 @@
+/**
+ * @format
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  OpenAIRealtimeService,
+  RealtimeCallbacks,
+  RealtimeConfig,
+  RealtimeServiceDependencies,
+} from '../src/services/OpenAIRealtimeService';
+import {CallStatus} from '../src/services/CallLifecycle';
+import {FakeRealtimeServer} from '../src/services/testing/FakeRealtimeServer';
+import {
+  decodePcm16,
+  MicrophonePcmSource,
+  SpeakerPcmSink,
+} from '../src/services/transports/PcmAudio';
+import type {IAudioRecord, Options} from 'react-native-live-audio-stream';
+import type {AudioContext} from 'react-native-audio-api';
+
+// The service only needs these for types and defaults; the fake server replaces them
+jest.mock('react-native-webrtc', () => ({
+  RTCPeerConnection: jest.fn(),
+  RTCSessionDescription: class {
+    constructor(init: object) {
+      Object.assign(this, init);
+    }
+  },
+  mediaDevices: {getUserMedia: jest.fn()},
+  MediaStream: jest.fn(),
+}));
+
+jest.mock('react-native-incall-manager', () => ({
+  startProximitySensor: jest.fn(),
+  stopProximitySensor: jest.fn(),
+  setKeepScreenOn: jest.fn(),
+  setForceSpeakerphoneOn: jest.fn(),
+  stop: jest.fn(),
+}));
+
+// No .env in tests; the fake server stands in for the backend
+jest.mock('react-native-config', () => ({}));
+
+// Replaced by FakeRecorder and FakeAudioContext below
+jest.mock('react-native-live-audio-stream', () => ({}));
+jest.mock('react-native-audio-api', () => ({AudioContext: jest.fn()}));
+
+// 48,000 bytes of 24 kHz PCM16
+const ONE_SECOND_OF_AUDIO = 'A'.repeat(64000);
+// The usage of a reply with ten seconds of speech, at 50 ms per audio token
+const TEN_SECONDS_OF_SPEECH = {
+  total_tokens: 200,
+  input_tokens: 0,
+  output_tokens: 200,
+  output_token_details: {audio_tokens: 200},
+};
+
+const createService = (
+  config: RealtimeConfig = {},
+  extraCallbacks: RealtimeCallbacks = {},
+  extraDependencies: RealtimeServiceDependencies = {},
+) => {
+  const server = new FakeRealtimeServer();
+  const callbacks = {
+    onConnectionStateChange: jest.fn(),
+    onBotSpeaking: jest.fn(),
+    onError: jest.fn(),
+    onSessionStart: jest.fn(),
+    onSessionEnd: jest.fn(),
+    onLifecycleChange: jest.fn(),
+  } satisfies RealtimeCallbacks;
+  const service = new OpenAIRealtimeService(
+    config,
+    {...callbacks, ...extraCallbacks},
+    {...server.dependencies, ...extraDependencies},
+  );
+  return {server, callbacks, service};
+};
+
+const statuses = (callbacks: {onLifecycleChange: jest.Mock}): CallStatus[] =>
+  callbacks.onLifecycleChange.mock.calls.map(
+    ([state]) => (state as {status: CallStatus}).status,
+  );
+
+const lastSpeakingState = (callbacks: {onBotSpeaking: jest.Mock}) =>
+  callbacks.onBotSpeaking.mock.calls[
+    callbacks.onBotSpeaking.mock.calls.length - 1
+  ]?.[0];
+
+// What the server sends for something the user said: the audio item, then
+// its transcript
+const userSays = (
+  server: FakeRealtimeServer,
+  transcript: string,
+  itemId: string = 'item_user',
+) => {
+  server.emit('conversation.item.created', {
+    previous_item_id: null,
+    item: {
+      id: itemId,
+      type: 'message',
+      role: 'user',
+      content: [{type: 'input_audio', transcript: null}],
+    },
+  });
+  server.emit('conversation.item.input_audio_transcription.completed', {
+    item_id: itemId,
+    content_index: 0,
+    transcript,
+  });
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('call lifecycle', () => {
+  it('connects, configures the session and ends cleanly', async () => {
+    const {server, callbacks, service} = createService({
+      instructions: 'Be brief.',
+    });
+
+    await service.startCall();
+
+    expect(server.keyRequests).toBe(1);
+    expect(server.sdpOffers).toEqual(['fake-offer']);
+    expect(server.peerConnection?.localTracks).toHaveLength(1);
+    expect(callbacks.onConnectionStateChange).toHaveBeenCalledWith('connected');
+    expect(callbacks.onSessionStart).toHaveBeenCalledTimes(1);
+    expect(service.isCallActive()).toBe(true);
+
+    const [update] = server.receivedOfType('session.update');
+    expect(update.session.instructions).toBe('Be brief.');
+    expect(update.session.turn_detection?.type).toBe('server_vad');
+
+    await service.endCall();
+
+    expect(server.peerConnection?.connectionState).toBe('closed');
+    expect(server.microphoneStream.getTracks()[0].readyState).toBe('ended');
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+    expect(service.isCallActive()).toBe(false);
+  });
+
+  it('receives audio without opening the microphone in text mode', async () => {
+    const {server, service} = createService({useMicrophone: false});
+
+    await service.startCall();
+
+    expect(server.peerConnection?.localTracks).toHaveLength(0);
+    expect(server.peerConnection?.transceivers).toEqual([
+      {kind: 'audio', direction: 'recvonly'},
+    ]);
+    await service.endCall();
+  });
+
+  it('reports a failed SDP exchange', async () => {
+    const server = new FakeRealtimeServer({sdpErrorStatus: 401});
+    const onError = jest.fn();
+    const service = new OpenAIRealtimeService(
+      {},
+      {onError},
+      server.dependencies,
+    );
+
+    await expect(service.startCall()).rejects.toThrow(
+      'SDP request failed: 401',
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(service.getLifecycle()).toEqual({
+      status: 'failed',
+      reason: 'SDP request failed: 401',
+    });
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      code: 'sdp-rejected',
+      retryable: true,
+      action: 'retry',
+    });
+    await service.endCall();
+  });
+
+  it('restarts ICE when the connection drops', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.dropConnection();
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      'reconnecting',
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(server.sdpOffers).toEqual(['fake-offer', 'fake-offer-ice-restart']);
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      'connected',
+    );
+    expect(callbacks.onSessionStart).toHaveBeenCalledTimes(1);
+    await service.endCall();
+  });
+
+  it('renegotiates with a fresh key and replays what was said', async () => {
+    const {server, callbacks, service} = createService({
+      transport: 'websocket',
+      greeting: 'Say hello.',
+    });
+    await service.startCall();
+    // The server echoes the hidden greeting prompt like any other item
+    const [greeting] = server.receivedOfType('conversation.item.create');
+    server.emit('conversation.item.created', {
+      previous_item_id: null,
+      item: greeting.item,
+    });
+    userSays(server, 'My dog is called Biscuit');
+    server.speak('resp_1', {transcript: 'What a lovely name!'});
+
+    server.dropConnection();
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      'reconnecting',
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(server.keyRequests).toBe(2);
+    expect(server.sockets[1].headers.Authorization).toBe('Bearer ek_fake_2');
+    expect(callbacks.onConnectionStateChange).toHaveBeenLastCalledWith(
+      'connected',
+    );
+    expect(callbacks.onSessionStart).toHaveBeenCalledTimes(1);
+    const replayed = server
+      .receivedOfType('conversation.item.create')
+      .slice(1)
+      .map(event => event.item);
+    expect(replayed).toEqual([
+      {
+        id: 'item_user',
+        type: 'message',
+        role: 'user',
+        content: [{type: 'input_text', text: 'My dog is called Biscuit'}],
+      },
+      {
+        id: 'item_resp_1',
+        type: 'message',
+        role: 'assistant',
+        content: [{type: 'text', text: 'What a lovely name!'}],
+      },
+    ]);
+    await service.endCall();
+  });
+
+  it('resolves updateSession once the server confirms it', async () => {
+    const {service} = createService();
+    await service.startCall();
+
+    const session = await service.updateSession({instructions: 'Be funny.'});
+
+    expect(session.instructions).toBe('Be funny.');
+    await service.endCall();
+  });
+});
+
+describe('call lifecycle states', () => {
+  it('steps through every state of a normal call', async () => {
+    const {callbacks, service} = createService(
+      {},
+      {},
+      {requestMicrophonePermission: async () => true},
+    );
+
+    await service.startCall();
+    await service.endCall();
+
+    expect(statuses(callbacks)).toEqual([
+      'requesting-permission',
+      'fetching-key',
+      'negotiating',
+      'connected',
+      'ending',
+      'ended',
+    ]);
+  });
+
+  it('continues without the microphone when permission is declined', async () => {
+    const {server, callbacks, service} = createService(
+      {},
+      {},
+      {requestMicrophonePermission: async () => false},
+    );
+
+    await service.startCall();
+
+    expect(callbacks.onError.mock.calls[0][0]).toMatchObject({
+      code: 'permission-denied',
+      retryable: false,
+      action: 'open-settings',
+    });
+    expect(service.getLifecycle()).toEqual({status: 'connected'});
+    expect(service.usesMicrophone()).toBe(false);
+    expect(server.peerConnection?.localTracks).toHaveLength(0);
+    await service.endCall();
+  });
+
+  it('fails with a reason when reconnecting gives up', async () => {
+    const {server, callbacks, service} = createService({
+      reconnect: {maxAttempts: 0},
+    });
+    await service.startCall();
+
+    server.dropConnection();
+
+    expect(service.getLifecycle()).toEqual({
+      status: 'failed',
+      reason: 'Connection lost and could not be restored',
+    });
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+
+    await service.endCall();
+    expect(service.getLifecycle()).toEqual({status: 'ended'});
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to start a second call while one is running', async () => {
+    const {service} = createService();
+    await service.startCall();
+
+    await expect(service.startCall()).rejects.toThrow(
+      'Cannot start a call while connected',
+    );
+    expect(service.getLifecycle()).toEqual({status: 'connected'});
+    await service.endCall();
+  });
+
+  it('starts only one call when two starts wait on the warm-up', async () => {
+    const {server, service} = createService();
+    service.warmUp();
+
+    const first = service.startCall();
+    const second = service.startCall();
+
+    await expect(second).rejects.toThrow('Cannot start a call while');
+    await first;
+    expect(server.keyRequests).toBe(1);
+    expect(server.peerConnections).toHaveLength(1);
+    expect(service.getLifecycle()).toEqual({status: 'connected'});
+    await service.endCall();
+  });
+});
+
+describe('warm start', () => {
+  it('starts on the prefetched key and prepared peer connection', async () => {
+    const {server, callbacks, service} = createService(
+      {},
+      {},
+      {requestMicrophonePermission: async () => true},
+    );
+
+    await service.warmUp({microphone: true});
+
+    expect(server.keyRequests).toBe(1);
+    expect(server.peerConnections).toHaveLength(1);
+    expect(server.peerConnection?.localTracks).toHaveLength(1);
+    expect(service.getLifecycle()).toEqual({status: 'idle'});
+
+    await service.startCall();
+
+    expect(server.keyRequests).toBe(1);
+    expect(server.peerConnections).toHaveLength(1);
+    expect(server.sdpOffers).toEqual(['fake-offer']);
+    // Permission was already granted during the warm-up
+    expect(statuses(callbacks)).toEqual([
+      'fetching-key',
+      'negotiating',
+      'connected',
+    ]);
+    await service.endCall();
+  });
+
+  it('fetches a new key when the prefetched one is about to expire', async () => {
+    const {server, service} = createService();
+
+    await service.warmUp();
+    jest.advanceTimersByTime(50000);
+    await service.startCall();
+
+    expect(server.keyRequests).toBe(2);
+    await service.endCall();
+  });
+
+  it('does not open the mic unless asked to', async () => {
+    const requestMicrophonePermission = jest.fn(async () => true);
+    const {server, service} = createService(
+      {},
+      {},
+      {requestMicrophonePermission},
+    );
+
+    await service.warmUp();
+
+    expect(requestMicrophonePermission).not.toHaveBeenCalled();
+    expect(server.peerConnections).toHaveLength(0);
+    expect(server.keyRequests).toBe(1);
+  });
+
+  it('greets the user as soon as the session opens', async () => {
+    const {server, service} = createService({greeting: 'Say hello!'});
+
+    await service.startCall();
+
+    const types = server.received.map(event => event.type);
+    expect(types.slice(0, 3)).toEqual([
+      'session.update',
+      'conversation.item.create',
+      'response.create',
+    ]);
+    const [greeting] = server.receivedOfType('conversation.item.create');
+    expect(greeting.item).toMatchObject({
+      role: 'user',
+      content: [{type: 'input_text', text: 'Say hello!'}],
+    });
+    await service.endCall();
+  });
+});
+
+describe('errors', () => {
+  it('reports a rate-limited SDP exchange as retryable', async () => {
+    const server = new FakeRealtimeServer({sdpErrorStatus: 429});
+    const service = new OpenAIRealtimeService({}, {}, server.dependencies);
+
+    await expect(service.startCall()).rejects.toMatchObject({
+      code: 'rate-limited',
+      retryable: true,
+    });
+    await service.endCall();
+  });
+
+  it('surfaces server errors and keeps the call going', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.emitError('Too many requests', {code: 'rate_limit_exceeded'});
+
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError.mock.calls[0][0]).toMatchObject({
+      code: 'rate-limited',
+    });
+    expect(service.getLifecycle()).toEqual({status: 'connected'});
+    await service.endCall();
+  });
+
+  it('fails the call when the session is no longer valid', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.emitError('Your session hit the maximum duration', {
+      code: 'session_expired',
+    });
+
+    expect(callbacks.onError.mock.calls[0][0]).toMatchObject({
+      code: 'invalid-session',
+    });
+    expect(service.getLifecycle().status).toBe('failed');
+    await service.endCall();
+  });
+
+  it('only logs errors about a single rejected event', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.emitError('Item not found', {code: 'item_not_found'});
+
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    await service.endCall();
+  });
+});
+
+describe('event subscriptions', () => {
+  it('delivers typed events until unsubscribed', async () => {
+    const {server, service} = createService();
+    const onCreated = jest.fn();
+    const onDone = jest.fn();
+    const unsubscribe = service.on('response.created', onCreated);
+    service.on('response.done', onDone);
+    await service.startCall();
+
+    server.speak('resp_1');
+    expect(onCreated).toHaveBeenCalledTimes(1);
+    expect(onCreated.mock.calls[0][0]).toMatchObject({
+      type: 'response.created',
+      response: {id: 'resp_1'},
+    });
+    expect(onDone).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    service.off('response.done', onDone);
+    server.speak('resp_2');
+    expect(onCreated).toHaveBeenCalledTimes(1);
+    expect(onDone).toHaveBeenCalledTimes(1);
+    await service.endCall();
+  });
+
+  it("passes unknown events to '*' subscribers", async () => {
+    const {server, service} = createService();
+    const onAny = jest.fn();
+    service.on('*', onAny);
+    await service.startCall();
+
+    server.emitRaw(
+      JSON.stringify({type: 'rate_limits.brand_new', event_id: 'event_x'}),
+    );
+
+    expect(onAny).toHaveBeenLastCalledWith({
+      type: 'rate_limits.brand_new',
+      event_id: 'event_x',
+    });
+    await service.endCall();
+  });
+
+  it('keeps calling the other handlers when one throws', async () => {
+    const {server, service} = createService();
+    const after = jest.fn();
+    service.on('response.created', () => {
+      throw new Error('broken handler');
+    });
+    service.on('response.created', after);
+    await service.startCall();
+
+    server.speak('resp_1');
+
+    expect(after).toHaveBeenCalledTimes(1);
+    await service.endCall();
+  });
+
+  it('refuses to send while the channel is closed', async () => {
+    const {server, service} = createService();
+
+    expect(service.send({type: 'response.create'})).toBe(false);
+    await service.startCall();
+    expect(service.send({type: 'response.create'})).toBe(true);
+    await service.endCall();
+    expect(service.send({type: 'response.create'})).toBe(false);
+    expect(server.receivedOfType('response.create')).toHaveLength(1);
+  });
+});
+
+describe('typed messages', () => {
+  it('sends the text, asks for a reply and logs the text answer', async () => {
+    const {server, service} = createService({
+      replyModality: 'text',
+      useMicrophone: false,
+    });
+    await service.startCall();
+    const [update] = server.receivedOfType('session.update');
+    expect(update.session.modalities).toEqual(['text']);
+
+    expect(service.sendText('   ')).toBe(false);
+    expect(service.sendText('  Tell me a joke ')).toBe(true);
+
+    const [message] = server.receivedOfType('conversation.item.create');
+    expect(message.item).toEqual({
+      type: 'message',
+      role: 'user',
+      content: [{type: 'input_text', text: 'Tell me a joke'}],
+    });
+    expect(server.received[server.received.length - 1].type).toBe(
+      'response.create',
+    );
+
+    server.emit('conversation.item.created', {
+      previous_item_id: null,
+      item: {...message.item, id: 'item_user'},
+    });
+    const ref = {
+      response_id: 'resp_1',
+      item_id: 'item_reply',
+      output_index: 0,
+      content_index: 0,
+    };
+    server.emit('response.output_item.added', {
+      response_id: 'resp_1',
+      output_index: 0,
+      item: {id: 'item_reply', type: 'message', role: 'assistant', content: []},
+    });
+    server.emit('response.text.delta', {...ref, delta: 'Why did the '});
+    server.emit('response.text.done', {
+      ...ref,
+      text: 'Why did the chicken cross the road?',
+    });
+
+    expect(
+      service.getConversation().map(turn => [turn.role, turn.kind, turn.text]),
+    ).toEqual([
+      ['user', 'text', 'Tell me a joke'],
+      ['assistant', 'text', 'Why did the chicken cross the road?'],
+    ]);
+    await service.endCall();
+  });
+});
+
+describe('mute', () => {
+  it('silences the track without renegotiating or touching the buffer', async () => {
+    const {server, service} = createService({turnMode: 'push-to-talk'});
+    await service.startCall();
+    const [track] = server.microphoneStream.getAudioTracks();
+    const sentBefore = server.received.length;
+
+    service.mute();
+    service.startPushToTalk();
+
+    expect(service.isMuted()).toBe(true);
+    expect(track.enabled).toBe(false);
+    expect(server.received).toHaveLength(sentBefore);
+
+    service.unmute();
+    service.startPushToTalk();
+
+    expect(service.isMuted()).toBe(false);
+    expect(track.enabled).toBe(true);
+    expect(server.receivedOfType('input_audio_buffer.clear')).toHaveLength(1);
+    expect(server.sdpOffers).toEqual(['fake-offer']);
+    await service.endCall();
+  });
+});
+
+describe('push-to-talk', () => {
+  it('opens the mic while held, then commits and asks for a reply', async () => {
+    const {server, service} = createService({turnMode: 'push-to-talk'});
+    await service.startCall();
+    const [track] = server.microphoneStream.getAudioTracks();
+    const [update] = server.receivedOfType('session.update');
+    expect(update.session.turn_detection).toBeNull();
+    expect(track.enabled).toBe(false);
+
+    service.startPushToTalk();
+    expect(track.enabled).toBe(true);
+    expect(server.received[server.received.length - 1].type).toBe(
+      'input_audio_buffer.clear',
+    );
+
+    jest.advanceTimersByTime(1500);
+    service.stopPushToTalk();
+
+    expect(track.enabled).toBe(false);
+    expect(server.received.slice(-2).map(event => event.type)).toEqual([
+      'input_audio_buffer.commit',
+      'response.create',
+    ]);
+    await service.endCall();
+  });
+
+  it('discards a press too short to be speech', async () => {
+    const {server, service} = createService({turnMode: 'push-to-talk'});
+    await service.startCall();
+
+    service.startPushToTalk();
+    jest.advanceTimersByTime(50);
+    service.stopPushToTalk();
+
+    expect(server.receivedOfType('input_audio_buffer.clear')).toHaveLength(2);
+    expect(server.receivedOfType('input_audio_buffer.commit')).toHaveLength(0);
+    expect(server.receivedOfType('response.create')).toHaveLength(0);
+    await service.endCall();
+  });
+});
+
+describe('tools', () => {
+  const callTool = (
+    server: FakeRealtimeServer,
+    callId: string,
+    name: string,
+    args: object,
+  ) => {
+    server.emit('response.output_item.added', {
+      response_id: 'resp_1',
+      output_index: 0,
+      item: {
+        id: `item_${callId}`,
+        type: 'function_call',
+        call_id: callId,
+        name,
+        arguments: '',
+      },
+    });
+    server.emit('response.function_call_arguments.done', {
+      response_id: 'resp_1',
+      item_id: `item_${callId}`,
+      output_index: 0,
+      call_id: callId,
+      arguments: JSON.stringify(args),
+    });
+  };
+
+  it('answers every tool call, then asks for the follow-up reply', async () => {
+    const getTime = jest.fn(async () => ({time: '10:30'}));
+    const {server, service} = createService({
+      tools: [
+        {
+          name: 'get_time',
+          description: 'The current time',
+          parameters: {type: 'object', properties: {}},
+          handler: getTime,
+        },
+        {
+          name: 'get_weather',
+          description: 'The weather in a city',
+          parameters: {type: 'object', properties: {city: {type: 'string'}}},
+          handler: async () => {
+            throw new Error('Weather service is down');
+          },
+        },
+      ],
+    });
+    await service.startCall();
+    const [update] = server.receivedOfType('session.update');
+    expect(update.session.tools?.map(tool => tool.name)).toEqual([
+      'get_time',
+      'get_weather',
+    ]);
+
+    callTool(server, 'call_1', 'get_time', {});
+    callTool(server, 'call_2', 'get_weather', {city: 'Leeds'});
+    expect(server.receivedOfType('response.create')).toHaveLength(0);
+    server.emit('response.done', {
+      response: {
+        id: 'resp_1',
+        object: 'realtime.response',
+        status: 'completed',
+        output: [],
+      },
+    });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(getTime).toHaveBeenCalledWith({});
+    expect(
+      server
+        .receivedOfType('conversation.item.create')
+        .map(event => event.item),
+    ).toEqual([
+      {
+        type: 'function_call_output',
+        call_id: 'call_1',
+        output: '{"time":"10:30"}',
+      },
+      {
+        type: 'function_call_output',
+        call_id: 'call_2',
+        output: '{"error":"Weather service is down"}',
+      },
+    ]);
+    expect(server.received[server.received.length - 1].type).toBe(
+      'response.create',
+    );
+    expect(server.receivedOfType('response.create')).toHaveLength(1);
+    await service.endCall();
+  });
+});
+
+describe('speaking state', () => {
+  it('follows the playback events of a response', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.speak('resp_1', {stopPlayback: false, usage: TEN_SECONDS_OF_SPEECH});
+    expect(lastSpeakingState(callbacks)).toBe(true);
+
+    // response.done alone does not end playback
+    jest.advanceTimersByTime(5000);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+
+    server.emit('output_audio_buffer.stopped', {response_id: 'resp_1'});
+    jest.advanceTimersByTime(299);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+
+  it('keeps speaking until every overlapping response has ended', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    server.speak('resp_1', {stopPlayback: false});
+    server.speak('resp_2', {stopPlayback: false});
+    server.emit('output_audio_buffer.stopped', {response_id: 'resp_1'});
+    jest.advanceTimersByTime(1000);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+
+    server.emit('output_audio_buffer.cleared', {response_id: 'resp_2'});
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    expect(callbacks.onBotSpeaking).toHaveBeenCalledTimes(2);
+    await service.endCall();
+  });
+
+  it('ignores responses without audio', async () => {
+    const {server, callbacks, service} = createService();
+    await service.startCall();
+
+    const response = {
+      id: 'resp_text',
+      object: 'realtime.response' as const,
+      output: [],
+    };
+    server.emit('response.created', {
+      response: {...response, status: 'in_progress'},
+    });
+    server.emit('response.done', {
+      response: {...response, status: 'completed'},
+    });
+
+    expect(callbacks.onBotSpeaking).not.toHaveBeenCalled();
+    await service.endCall();
+  });
+
+  it('leaves no timers behind when the call ends mid-reply', async () => {
+    const {server, service} = createService({
+      transport: 'websocket',
+      audioEndDelayStrategy: 'fixed',
+      audioEndDelayMs: 5000,
+    });
+    await service.startCall();
+    server.speak('resp_1');
+
+    await service.endCall();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+// The WebSocket API reports no playback events, so the strategies decide
+describe('end-of-speech fallbacks', () => {
+  it('fixed: stops speaking after the configured delay', async () => {
+    const {server, callbacks, service} = createService({
+      transport: 'websocket',
+      audioEndDelayStrategy: 'fixed',
+      audioEndDelayMs: 800,
+    });
+    await service.startCall();
+
+    server.speak('resp_1', {audioChunks: [ONE_SECOND_OF_AUDIO]});
+    expect(lastSpeakingState(callbacks)).toBe(true);
+
+    jest.advanceTimersByTime(799);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+
+  it('smart: waits for the unplayed audio plus a buffer', async () => {
+    const {server, callbacks, service} = createService({
+      transport: 'websocket',
+      audioEndDelayStrategy: 'smart',
+    });
+    await service.startCall();
+
+    server.speak('resp_1', {audioChunks: [ONE_SECOND_OF_AUDIO]});
+
+    jest.advanceTimersByTime(1299);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+
+  it('stream-monitoring: uses the smart delay without a remote track', async () => {
+    const {server, callbacks, service} = createService({
+      transport: 'websocket',
+      audioEndDelayStrategy: 'stream-monitoring',
+    });
+    await service.startCall();
+
+    server.speak('resp_1', {
+      audioChunks: [ONE_SECOND_OF_AUDIO, ONE_SECOND_OF_AUDIO],
+    });
+
+    jest.advanceTimersByTime(2299);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+
+  it('webrtc: stops speaking when output_audio_buffer.stopped never arrives', async () => {
+    const {server, callbacks, service} = createService({
+      audioEndDelayStrategy: 'smart',
+    });
+    await service.startCall();
+
+    server.speak('resp_1', {stopPlayback: false, usage: TEN_SECONDS_OF_SPEECH});
+
+    // The reply's length, the device buffer and the margin for the event
+    jest.advanceTimersByTime(11299);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+
+  it('webrtc stream-monitoring: stops speaking once the remote track ends', async () => {
+    const {server, callbacks, service} = createService({
+      audioEndDelayStrategy: 'stream-monitoring',
+    });
+    await service.startCall();
+
+    server.speak('resp_1', {stopPlayback: false, usage: TEN_SECONDS_OF_SPEECH});
+    jest.advanceTimersByTime(2000);
+    expect(lastSpeakingState(callbacks)).toBe(true);
+
+    server.remoteStream.getAudioTracks()[0].end();
+    jest.advanceTimersByTime(100);
+    expect(lastSpeakingState(callbacks)).toBe(false);
+    await service.endCall();
+  });
+});
+
+describe('barge-in', () => {
+  it('clears and truncates the reply the user talks over', async () => {
+    const {server, service} = createService();
+    await service.startCall();
+
+    server.speak('resp_1', {itemId: 'item_1', stopPlayback: false});
+    jest.advanceTimersByTime(1200);
+    server.emit('input_audio_buffer.speech_started', {
+      audio_start_ms: 0,
+      item_id: 'item_user',
+    });
+
+    expect(server.receivedOfType('output_audio_buffer.clear')).toHaveLength(1);
+    const [truncate] = server.receivedOfType('conversation.item.truncate');
+    expect(truncate.item_id).toBe('item_1');
+    expect(truncate.audio_end_ms).toBe(1200);
+    expect(service.getConversation()[0].interrupted).toBe(true);
+    await service.endCall();
+  });
+});
+
+describe('conversation history', () => {
+  it('reports the finished conversation when the call ends', async () => {
+    const onConversationEnd = jest.fn();
+    const {server, service} = createService({}, {onConversationEnd});
+    await service.startCall();
+
+    server.speak('resp_1', {itemId: 'item_1', transcript: 'Hi, how are you?'});
+    jest.advanceTimersByTime(1000);
+    await service.endCall();
+
+    expect(onConversationEnd).toHaveBeenCalledTimes(1);
+    expect(onConversationEnd).toHaveBeenCalledWith(
+      expect.objectContaining({
+        turns: [
+          expect.objectContaining({
+            itemId: 'item_1',
+            role: 'assistant',
+            text: 'Hi, how are you?',
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("keeps the user's turn in place while its transcript arrives late", async () => {
+    const {server, service} = createService();
+    await service.startCall();
+    server.speak('resp_1', {itemId: 'item_1', transcript: 'How are you?'});
+
+    server.emit('conversation.item.created', {
+      previous_item_id: 'item_1',
+      item: {
+        id: 'item_user',
+        type: 'message',
+        role: 'user',
+        content: [{type: 'input_audio', transcript: null}],
+      },
+    });
+    server.emit('conversation.item.input_audio_transcription.delta', {
+      item_id: 'item_user',
+      content_index: 0,
+      delta: 'Great, ',
+    });
+    expect(service.getConversation()[1]).toMatchObject({
+      itemId: 'item_user',
+      role: 'user',
+      kind: 'speech',
+      text: 'Great, ',
+      isFinal: false,
+    });
+
+    // The reply starts before the transcription is done
+    server.speak('resp_2', {itemId: 'item_2', transcript: 'Glad to hear!'});
+    server.emit('conversation.item.input_audio_transcription.completed', {
+      item_id: 'item_user',
+      content_index: 0,
+      transcript: 'Great, thanks! ',
+    });
+
+    expect(
+      service
+        .getConversation()
+        .map(turn => [turn.role, turn.text, turn.isFinal]),
+    ).toEqual([
+      ['assistant', 'How are you?', true],
+      ['user', 'Great, thanks!', true],
+      ['assistant', 'Glad to hear!', true],
+    ]);
+    await service.endCall();
+  });
+});
+
+describe('end-of-call summary', () => {
+  const summaryResponse = (text: string) => ({
+    id: 'resp_summary',
+    object: 'realtime.response' as const,
+    status: 'completed' as const,
+    metadata: {purpose: 'end-of-call-summary'},
+    output: [
+      {
+        id: 'item_summary',
+        type: 'message' as const,
+        role: 'assistant' as const,
+        content: [{type: 'text' as const, text}],
+      },
+    ],
+  });
+
+  it('asks for the summary outside the conversation before hanging up', async () => {
+    const onConversationEnd = jest.fn();
+    const {server, service} = createService(
+      {summaryPrompt: 'Summarize the call.'},
+      {onConversationEnd},
+    );
+    await service.startCall();
+    userSays(server, 'My dog is called Biscuit');
+
+    const ending = service.endCall();
+    const [request] = server
+      .receivedOfType('response.create')
+      .filter(event => event.response?.conversation === 'none');
+    expect(request.response).toMatchObject({
+      modalities: ['text'],
+      instructions: 'Summarize the call.',
+    });
+    expect(service.getLifecycle().status).toBe('ending');
+
+    const response = summaryResponse('{"summary": "Talked about Biscuit."}');
+    server.emit('response.created', {response: {...response, output: []}});
+    server.emit('response.output_item.added', {
+      response_id: 'resp_summary',
+      output_index: 0,
+      item: response.output[0],
+    });
+    server.emit('response.done', {response});
+    await ending;
+
+    expect(onConversationEnd).toHaveBeenCalledWith(
+      expect.objectContaining({
+        summary: '{"summary": "Talked about Biscuit."}',
+      }),
+    );
+    // The summary is never shown as a reply
+    expect(service.getConversation().map(turn => turn.role)).toEqual(['user']);
+  });
+
+  it('hangs up without a summary when none arrives in time', async () => {
+    const onConversationEnd = jest.fn();
+    const {server, service} = createService(
+      {summaryPrompt: 'Summarize the call.'},
+      {onConversationEnd},
+    );
+    await service.startCall();
+    userSays(server, 'Hello');
+
+    const ending = service.endCall();
+    await jest.advanceTimersByTimeAsync(8000);
+    await ending;
+
+    expect(service.getLifecycle().status).toBe('ended');
+    expect(onConversationEnd).toHaveBeenCalledWith(
+      expect.objectContaining({summary: undefined}),
+    );
+  });
+
+  it('skips the summary when the user said nothing', async () => {
+    const {server, service} = createService({summaryPrompt: 'Summarize.'});
+    await service.startCall();
+
+    await service.endCall();
+
+    expect(
+      server
+        .receivedOfType('response.create')
+        .filter(event => event.response?.conversation === 'none'),
+    ).toHaveLength(0);
+  });
+});
+
+describe('call metrics', () => {
+  it('publishes stats, turn latency and a call summary', async () => {
+    const onMetrics = jest.fn();
+    const onTurnLatency = jest.fn();
+    const onCallSummary = jest.fn();
+    const {server, service} = createService(
+      {metricsIntervalMs: 1000},
+      {onMetrics, onTurnLatency, onCallSummary},
+    );
+    await service.startCall();
+
+    server.stats = [
+      {type: 'candidate-pair', state: 'succeeded', currentRoundTripTime: 0.12},
+      {
+        type: 'inbound-rtp',
+        kind: 'audio',
+        jitter: 0.015,
+        bytesReceived: 0,
+        packetsReceived: 0,
+        packetsLost: 0,
+      },
+      {type: 'outbound-rtp', kind: 'audio', bytesSent: 0},
+    ];
+    await jest.advanceTimersByTimeAsync(1000);
+    server.stats = [
+      {type: 'candidate-pair', state: 'succeeded', currentRoundTripTime: 0.12},
+      {
+        type: 'inbound-rtp',
+        kind: 'audio',
+        jitter: 0.015,
+        bytesReceived: 4000,
+        packetsReceived: 98,
+        packetsLost: 2,
+      },
+      {type: 'outbound-rtp', kind: 'audio', bytesSent: 2000},
+    ];
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(onMetrics).toHaveBeenLastCalledWith({
+      timestamp: expect.any(Number),
+      roundTripTimeMs: 120,
+      jitterMs: 15,
+      packetLossPercent: 2,
+      inboundBitrateKbps: 32,
+      outboundBitrateKbps: 16,
+    });
+
+    server.emit('input_audio_buffer.speech_stopped', {
+      audio_end_ms: 1000,
+      item_id: 'item_user',
+    });
+    jest.advanceTimersByTime(450);
+    server.speak('resp_1');
+    expect(onTurnLatency).toHaveBeenCalledWith(
+      expect.objectContaining({responseId: 'resp_1', latencyMs: 450}),
+    );
+
+    await service.endCall();
+    expect(onCallSummary).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transport: 'webrtc',
+        sampleCount: 2,
+        averageRoundTripTimeMs: 120,
+        packetLossPercent: 2,
+        turnLatenciesMs: [450],
+      }),
+    );
+  });
+});
+
+describe('usage budgets', () => {
+  // 300 output audio tokens cost $0.006 on the mini model
+  const usage = {
+    total_tokens: 300,
+    input_tokens: 0,
+    output_tokens: 300,
+    output_token_details: {audio_tokens: 300, text_tokens: 0},
+  };
+
+  it('warns, then says goodbye and ends the call', async () => {
+    const onUsage = jest.fn();
+    const onBudgetWarning = jest.fn();
+    const onBudgetExceeded = jest.fn();
+    const {server, callbacks, service} = createService(
+      {budget: {sessionLimitUsd: 0.01, warnAtFraction: 0.5}},
+      {onUsage, onBudgetWarning, onBudgetExceeded},
+    );
+    await service.startCall();
+
+    server.speak('resp_1', {usage});
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onBudgetWarning).toHaveBeenCalledWith(
+      expect.objectContaining({scope: 'session', limitUsd: 0.01}),
+    );
+    expect(onBudgetExceeded).not.toHaveBeenCalled();
+
+    server.speak('resp_2', {usage});
+    expect(onBudgetExceeded).toHaveBeenCalledTimes(1);
+    expect(service.getUsage().outputAudioTokens).toBe(600);
+
+    // The goodbye is requested with the mic off, then the call ends after it played
+    const prompts = server.receivedOfType('conversation.item.create');
+    expect(prompts[prompts.length - 1].item.id).toMatch(/^prompt_/);
+    expect(server.microphoneStream.getAudioTracks()[0].enabled).toBe(false);
+
+    server.speak('resp_goodbye');
+    expect(callbacks.onSessionEnd).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('call time limits', () => {
+  const lastPrompt = (server: FakeRealtimeServer) => {
+    const items = server.receivedOfType('conversation.item.create');
+    const item = items[items.length - 1]?.item;
+    return item?.type === 'message' && item.content[0].type === 'input_text'
+      ? item.content[0].text
+      : undefined;
+  };
+
+  it('checks in on an idle user, then hangs up', async () => {
+    const onIdleCheck = jest.fn();
+    const {server, callbacks, service} = createService(
+      {idleTimeoutMs: 60000},
+      {onIdleCheck},
+    );
+    await service.startCall();
+
+    // Talking keeps the call alive
+    jest.advanceTimersByTime(50000);
+    server.emit('input_audio_buffer.speech_started', {
+      audio_start_ms: 0,
+      item_id: 'item_user',
+    });
+    jest.advanceTimersByTime(50000);
+    expect(onIdleCheck).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10000);
+    expect(onIdleCheck).toHaveBeenCalledTimes(1);
+    expect(lastPrompt(server)).toMatch(/still there/);
+
+    // The check-in reply does not restart the countdown
+    server.speak('resp_check');
+    jest.advanceTimersByTime(20000);
+    expect(lastPrompt(server)).toMatch(/goodbye/);
+
+    server.speak('resp_goodbye');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts down the last minute and ends at the maximum length', async () => {
+    const onTimeRemaining = jest.fn();
+    const {server, service} = createService(
+      {maxCallDurationMs: 5 * 60000},
+      {onTimeRemaining},
+    );
+    await service.startCall();
+
+    jest.advanceTimersByTime(4 * 60000 - 1);
+    expect(onTimeRemaining).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onTimeRemaining).toHaveBeenLastCalledWith(60);
+    jest.advanceTimersByTime(30000);
+    expect(onTimeRemaining).toHaveBeenLastCalledWith(30);
+
+    jest.advanceTimersByTime(30000);
+    expect(onTimeRemaining).toHaveBeenLastCalledWith(0);
+    expect(lastPrompt(server)).toMatch(/maximum length/);
+    await service.endCall();
+  });
+
+  it('says goodbye before hanging up when the limit hits mid-reply', async () => {
+    const {server, callbacks, service} = createService({
+      maxCallDurationMs: 60000,
+    });
+    await service.startCall();
+    const reply = {
+      id: 'resp_1',
+      object: 'realtime.response' as const,
+      output: [],
+    };
+    server.emit('response.created', {
+      response: {...reply, status: 'in_progress'},
+    });
+
+    jest.advanceTimersByTime(60000);
+    expect(lastPrompt(server)).toMatch(/maximum length/);
+    expect(server.receivedOfType('response.cancel')).toHaveLength(1);
+
+    // The cancelled reply ends first; the goodbye has not been said yet
+    server.emit('response.done', {response: {...reply, status: 'cancelled'}});
+    server.emit('output_audio_buffer.stopped', {response_id: 'resp_1'});
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(callbacks.onSessionEnd).not.toHaveBeenCalled();
+
+    server.speak('resp_goodbye', {transcript: 'Bye for now!'});
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(callbacks.onSessionEnd).toHaveBeenCalledTimes(1);
+    expect(service.getConversation().map(turn => turn.text)).toContain(
+      'Bye for now!',
+    );
+  });
+});
+
+// The microphone, as react-native-live-audio-stream reports it
+class FakeRecorder implements IAudioRecord {
+  options: Options | null = null;
+  recording = false;
+  private onData: (chunk: string) => void = () => {};
+
+  init = (options: Options) => {
+    this.options = options;
+  };
+  start = () => {
+    this.recording = true;
+  };
+  stop = async () => {
+    this.recording = false;
+    return '';
+  };
+  on = (_event: 'data', callback: (chunk: string) => void) => {
+    this.onData = callback;
+  };
+
+  record(chunk: string) {
+    if (this.recording) {
+      this.onData(chunk);
+    }
+  }
+}
+
+interface FakePlayback {
+  samples: number[];
+  startsAt: number;
+  stopped: boolean;
+}
+
+// Records what react-native-audio-api would play, and when
+class FakeAudioContext {
+  currentTime = 0;
+  destination = {};
+  played: FakePlayback[] = [];
+
+  createBuffer(_channels: number, length: number) {
+    return {
+      samples: new Array<number>(length).fill(0),
+      copyToChannel(samples: number[]) {
+        this.samples = samples;
+      },
+    };
+  }
+
+  createBufferSource() {
+    const playback: FakePlayback = {samples: [], startsAt: -1, stopped: false};
+    const node = {
+      buffer: null as {samples: number[]} | null,
+      connect: () => {},
+      start: (when: number) => {
+        playback.samples = node.buffer!.samples;
+        playback.startsAt = when;
+        this.played.push(playback);
+      },
+      stop: () => {
+        playback.stopped = true;
+      },
+    };
+    return node;
+  }
+}
+
+describe('websocket audio', () => {
+  const createAudioService = () => {
+    const recorder = new FakeRecorder();
+    const context = new FakeAudioContext();
+    const created = createService({
+      transport: 'websocket',
+      webSocket: {
+        audioSource: new MicrophonePcmSource(recorder),
+        audioSink: new SpeakerPcmSink(() => context as unknown as AudioContext),
+      },
+    });
+    return {...created, recorder, context};
+  };
+
+  it('decodes little-endian PCM16', () => {
+    // 0x4000 and 0xC000
+    expect(decodePcm16('AEAAwA==')).toEqual([0.5, -0.5]);
+    expect(decodePcm16(ONE_SECOND_OF_AUDIO)).toHaveLength(24000);
+  });
+
+  it('streams the microphone as input_audio_buffer.append', async () => {
+    const {server, service, recorder} = createAudioService();
+    await service.startCall();
+
+    expect(recorder.options).toMatchObject({
+      sampleRate: 24000,
+      channels: 1,
+      bitsPerSample: 16,
+    });
+    recorder.record('AEAAwA==');
+    service.mute();
+    recorder.record('AAAAAA==');
+    service.unmute();
+    recorder.record('wABAAA==');
+
+    expect(
+      server
+        .receivedOfType('input_audio_buffer.append')
+        .map(event => event.audio),
+    ).toEqual(['AEAAwA==', 'wABAAA==']);
+
+    await service.endCall();
+    expect(recorder.recording).toBe(false);
+  });
+
+  it('plays response.audio.delta back to back and drops it on barge-in', async () => {
+    const {server, service, context} = createAudioService();
+    await service.startCall();
+
+    server.speak('resp_1', {
+      audioChunks: ['AEAAwA==', ONE_SECOND_OF_AUDIO],
+    });
+
+    expect(context.played.map(playback => playback.startsAt)).toEqual([
+      0,
+      2 / 24000,
+    ]);
+    expect(context.played[0].samples).toEqual([0.5, -0.5]);
+
+    server.emit('input_audio_buffer.speech_started', {
+      audio_start_ms: 0,
+      item_id: 'item_user',
+    });
+    expect(context.played.every(playback => playback.stopped)).toBe(true);
+    expect(server.receivedOfType('output_audio_buffer.clear')).toHaveLength(0);
+    await service.endCall();
+  });
+});
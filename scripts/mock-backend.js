@@ -0,0 +1,167 @@
+/**
+ * Local stand-in for the ChatterBuddy backend, for the development profile.
+ *
+ *   OPENAI_API_KEY=sk-... npm run mock-backend
+ *
+ * With OPENAI_API_KEY set, ephemeral keys are minted by the Realtime API so
+ * calls work end to end; without it the server hands out fake keys, which is
+ * enough to work on everything before the SDP exchange.
+ *
+ * Sign-in codes are printed here instead of emailed. Sessions live in memory,
+ * so restarting the server signs everyone out. ACCESS_TOKEN_TTL (seconds)
+ * makes access tokens expire sooner, to exercise refresh.
+ * On an Android emulator run `adb reverse tcp:8787 tcp:8787` first.
+ */
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 8787;
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL) || 900;
+
+const codes = new Map(); // email -> one-time code
+const accessTokens = new Map(); // token -> {email, expiresAt}
+const refreshTokens = new Map(); // token -> email
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+};
+
+const readJson = req =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const newToken = () => crypto.randomBytes(24).toString('hex');
+
+const userFor = email => ({
+  id: crypto.createHash('sha256').update(email).digest('hex').slice(0, 16),
+  email,
+});
+
+const issueTokens = email => {
+  const accessToken = newToken();
+  const refreshToken = newToken();
+  accessTokens.set(accessToken, {
+    email,
+    expiresAt: Date.now() + ACCESS_TOKEN_TTL * 1000,
+  });
+  refreshTokens.set(refreshToken, email);
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL,
+    user: userFor(email),
+  };
+};
+
+const requireUser = req => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const session = accessTokens.get(token);
+  if (!session || session.expiresAt < Date.now()) {
+    throw new HttpError(401, 'Invalid or expired access token');
+  }
+  return session.email;
+};
+
+const mintEphemeralKey = async ({model, voice}) => {
+  if (!OPENAI_API_KEY) {
+    return {
+      ephemeralKey: `ek_mock_${Date.now()}`,
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    };
+  }
+  const response = await fetch('https://api.openai.com/v1/realtime/sessions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({model, voice}),
+  });
+  if (!response.ok) {
+    throw new HttpError(response.status, `OpenAI returned ${response.status}`);
+  }
+  const session = await response.json();
+  return {
+    ephemeralKey: session.client_secret.value,
+    expiresAt: session.client_secret.expires_at,
+  };
+};
+
+const routes = {
+  '/api/auth/code': async ({email}) => {
+    if (typeof email !== 'string' || !email.includes('@')) {
+      throw new HttpError(400, 'A valid email is required');
+    }
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    codes.set(email, code);
+    console.log(`✉️  Sign-in code for ${email}: ${code}`);
+  },
+  '/api/auth/verify': async ({email, code}) => {
+    if (!codes.has(email) || codes.get(email) !== code) {
+      throw new HttpError(401, 'Wrong or expired code');
+    }
+    codes.delete(email);
+    return issueTokens(email);
+  },
+  '/api/auth/refresh': async ({refreshToken}) => {
+    const email = refreshTokens.get(refreshToken);
+    if (!email) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+    refreshTokens.delete(refreshToken); // rotated on every use
+    return issueTokens(email);
+  },
+  '/api/auth/sign-out': async ({refreshToken}) => {
+    refreshTokens.delete(refreshToken);
+  },
+  '/api/openai/ephemeral-key': async (body, req) => {
+    const email = requireUser(req);
+    console.log(`🔑 Ephemeral key for ${email}`);
+    return mintEphemeralKey(body);
+  },
+};
+
+const server = http.createServer(async (req, res) => {
+  console.log(`${req.method} ${req.url}`);
+  const route = routes[req.url];
+  if (req.method !== 'POST' || !route) {
+    sendJson(res, 404, {success: false, error: 'Not found'});
+    return;
+  }
+  try {
+    const data = await route(await readJson(req), req);
+    sendJson(res, 200, data ? {success: true, data} : {success: true});
+  } catch (error) {
+    console.error(`${req.url} failed:`, error.message);
+    sendJson(res, error.status || 500, {success: false, error: error.message});
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `🧪 Mock backend on http://localhost:${PORT} (${
+      OPENAI_API_KEY ? 'real' : 'fake'
+    } ephemeral keys)`,
+  );
+});
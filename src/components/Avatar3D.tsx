@@ -2,6 +2,10 @@ import React, {useRef, useEffect, useState} from 'react';
 import {useFrame} from '@react-three/fiber/native';
 import {useGLTF, useAnimations} from '@react-three/drei/native';
 import {Group} from 'three';
+import {createLogger} from '../services/Logger';
+import {describeScene, diagnostics} from '../services/Diagnostics';
+
+const log = createLogger('avatar');
 
 interface Avatar3DProps {
   isListening: boolean;
@@ -33,7 +37,8 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
     if (gltfData && scene && !isLoaded) {
       setIsLoaded(true);
       onLoadStateChange?.(true);
-      console.log('GLTF loaded and ready');
+      diagnostics.setScene(describeScene(scene, gltfData.animations || []));
+      log.info('GLTF loaded and ready');
     }
   }, [gltfData, scene, isLoaded, onLoadStateChange]);
 
@@ -46,7 +51,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
       if (!actualActions || typeof actualActions !== 'object') return;
 
       const actualAnimationNames = Object.keys(actualActions);
-      console.log('Starting all animations:', actualAnimationNames);
+      log.debug('Starting all animations:', actualAnimationNames);
 
       // Start all animations initially
       actualAnimationNames.forEach((animationName, index) => {
@@ -55,15 +60,15 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
           setTimeout(() => {
             try {
               animation.play();
-              console.log(`Started: ${animationName}`);
+              log.debug(`Started: ${animationName}`);
             } catch (error) {
-              console.error(`Error starting ${animationName}:`, error);
+              log.error(`Error starting ${animationName}:`, error);
             }
           }, index * 100);
         }
       });
     } catch (error) {
-      console.error('Error starting animations:', error);
+      log.error('Error starting animations:', error);
     }
   }, [isLoaded, actions]);
 
@@ -72,13 +77,13 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
     if (!actions || !actions.actions || !isLoaded) return;
 
     try {
-      console.log('Talking state changed:', isTalking);
+      log.debug('Talking state changed:', isTalking);
 
       const actualActions = actions.actions;
       if (!actualActions || typeof actualActions !== 'object') return;
 
       const actualAnimationNames = Object.keys(actualActions);
-      console.log('Available animation names:', actualAnimationNames);
+      log.debug('Available animation names:', actualAnimationNames);
 
       // Pause/Resume based on talking state
       actualAnimationNames.forEach(animationName => {
@@ -88,7 +93,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
             // Resume animation when talking
             if (animation.paused) {
               animation.paused = false;
-              console.log(`Resumed: ${animationName}`);
+              log.debug(`Resumed: ${animationName}`);
             }
           } else {
             // Pause animation when not talking and reset to initial state
@@ -96,13 +101,13 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
               // Reset animation to initial state before pausing
               animation.reset();
               animation.paused = true;
-              console.log(`Paused and reset: ${animationName}`);
+              log.debug(`Paused and reset: ${animationName}`);
             }
           }
         }
       });
     } catch (error) {
-      console.error('Error in pause/resume effect:', error);
+      log.error('Error in pause/resume effect:', error);
     }
   }, [isTalking, isLoaded, actions]);
 
@@ -124,7 +129,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
 
   // Simple safety check
   if (!scene) {
-    console.log('No scene available, returning null');
+    log.debug('No scene available, returning null');
     return null;
   }
 
@@ -148,7 +153,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
       </group>
 
       {/* Status indicators */}
-      {/* {isMuted && (
+      {isMuted && (
         <mesh position={[1.5, 1, 0]}>
           <sphereGeometry args={[0.1, 8, 8]} />
           <meshStandardMaterial
@@ -159,7 +164,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({
             emissiveIntensity={0.3}
           />
         </mesh>
-      )} */}
+      )}
 
       {/* Listening glow */}
       {/* {isListening && (
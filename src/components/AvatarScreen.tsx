@@ -12,28 +12,59 @@ import {
   Animated,
 } from 'react-native';
 import {
+  openSettings,
   request,
   PERMISSIONS,
   RESULTS,
   Permission,
 } from 'react-native-permissions';
-import Config from 'react-native-config';
 import {Canvas} from '@react-three/fiber/native';
 import {Suspense} from 'react';
 import {Color} from 'three';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import Avatar3D from './Avatar3D';
+import ChatPanel from './ChatPanel';
+import CaptionsOverlay from './CaptionsOverlay';
+import ErrorBanner from './ErrorBanner';
 import {
-  OpenAIRealtimeService,
   RealtimeConfig,
   RealtimeCallbacks,
+  ReplyModality,
+  TurnMode,
 } from '../services/OpenAIRealtimeService';
-import {AIConfigService, AIConfig} from '../services/AIConfigService';
+import {canStartCall, CallStatus} from '../services/CallLifecycle';
+import {useRealtimeCall} from '../hooks/useRealtimeCall';
+import {useAuth} from '../hooks/useAuth';
+import {
+  AIConfigService,
+  AIConfig,
+  AIPersonality,
+} from '../services/AIConfigService';
+import {CHATTERBUDDY_TOOLS} from '../services/ChatterBuddyTools';
+import {getSignalQuality, SignalQuality} from '../services/CallMetrics';
+import {CallSummaryService} from '../services/CallSummaryService';
+import {
+  ConversationHistoryService,
+  SavedTurn,
+  toSavedTurns,
+} from '../services/ConversationHistoryService';
+import {
+  buildSummaryPrompt,
+  MemoryService,
+  RelevantMemories,
+} from '../services/MemoryService';
+import {UsageService} from '../services/UsageService';
+import {formatUsd} from '../services/TokenUsage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {useNavigation} from '@react-navigation/native';
 import type {StackNavigationProp} from '@react-navigation/stack';
 import InCallManager from 'react-native-incall-manager';
 import {responsive} from '../utils/responsive';
+import {createLogger} from '../services/Logger';
+import {
+  MicrophonePcmSource,
+  SpeakerPcmSink,
+} from '../services/transports/PcmAudio';
 
 // ✅ Hermes-compatible patch for WebGL getProgramInfoLog
 if (
@@ -51,10 +82,112 @@ if (
   };
 }
 
+const avatarLog = createLogger('avatar');
+const audioLog = createLogger('audio');
+const callLog = createLogger('realtime');
+const settingsLog = createLogger('settings');
+
 const {width, height} = Dimensions.get('window');
 const STORAGE_KEY = 'startTalkingOnOpen';
+// Turns the memories are matched against
+const RECENT_TURNS = 10;
+// Microphone and speaker for calls over WebSocket (the Compatibility
+// connection), shared so the playback context is only made once
+const WEBSOCKET_AUDIO = {
+  audioSource: new MicrophonePcmSource(),
+  audioSink: new SpeakerPcmSink(),
+};
+
+// Memories that fit what was said last: in the running call, or else in the
+// last saved conversation
+const loadRelevantMemories = async (liveTurns: SavedTurn[] = []) => {
+  const turns = liveTurns.length
+    ? liveTurns
+    : (await ConversationHistoryService.getConversations())[0]?.turns || [];
+  return MemoryService.getRelevantMemories(
+    turns.slice(-RECENT_TURNS).map(turn => turn.text),
+  );
+};
+
+type RootStackParamList = {
+  Avatar: undefined;
+  Settings: undefined;
+  SignIn: undefined;
+  Diagnostics: undefined;
+  History: undefined;
+  Memory: undefined;
+};
+
+const SIGNAL_ICONS: Record<
+  Exclude<SignalQuality, 'unknown'>,
+  {icon: string; color: string}
+> = {
+  good: {icon: 'signal-cellular-3', color: '#4CAF50'},
+  fair: {icon: 'signal-cellular-2', color: '#ff9800'},
+  poor: {icon: 'signal-cellular-1', color: '#f44336'},
+};
 
-type RootStackParamList = {Avatar: undefined; Settings: undefined};
+type StatusDisplay = {label: string; icon: string; color: string};
+
+const CALL_STATUS_DISPLAY: Record<CallStatus, StatusDisplay> = {
+  idle: {label: 'Idle', icon: 'phone-outline', color: '#888888'},
+  'requesting-permission': {
+    label: 'Waiting for microphone...',
+    icon: 'microphone-outline',
+    color: '#ff9800',
+  },
+  'fetching-key': {
+    label: 'Connecting...',
+    icon: 'clock-outline',
+    color: '#ff9800',
+  },
+  negotiating: {
+    label: 'Connecting...',
+    icon: 'clock-outline',
+    color: '#ff9800',
+  },
+  connected: {label: 'Connected', icon: 'phone', color: '#4CAF50'},
+  reconnecting: {label: 'Reconnecting...', icon: 'sync', color: '#ff9800'},
+  ending: {label: 'Ending...', icon: 'phone-off', color: '#888888'},
+  ended: {label: 'Call Ended', icon: 'phone-off', color: '#f44336'},
+  failed: {label: 'Call Failed', icon: 'alert-circle', color: '#f44336'},
+};
+
+// Request microphone permissions for both iOS and Android. The service reports
+// a refusal as a permission-denied error, shown in the error banner.
+const requestMicrophonePermission = async (): Promise<boolean> => {
+  try {
+    let permission: Permission;
+
+    if (Platform.OS === 'ios') {
+      permission = PERMISSIONS.IOS.MICROPHONE;
+    } else {
+      permission = PERMISSIONS.ANDROID.RECORD_AUDIO;
+    }
+
+    const result = await request(permission);
+
+    switch (result) {
+      case RESULTS.GRANTED:
+        audioLog.info('Microphone permission granted');
+        return true;
+      case RESULTS.DENIED:
+        audioLog.info('Microphone permission denied');
+        return false;
+      case RESULTS.BLOCKED:
+        audioLog.info('Microphone permission blocked');
+        return false;
+      case RESULTS.UNAVAILABLE:
+        audioLog.info('Microphone not available on this device');
+        return false;
+      default:
+        return false;
+    }
+  } catch (error) {
+    audioLog.error('Error requesting microphone permission:', error);
+    return false;
+  }
+};
 
 // Simple Loader component as shown in the R3F documentation
 const Loader: React.FC = () => {
@@ -66,18 +199,17 @@ const Loader: React.FC = () => {
 };
 
 const AvatarScreen: React.FC = () => {
-  const [isCallActive, setIsCallActive] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [connectionState, setConnectionState] = useState('disconnected');
-  const [transcript, setTranscript] = useState('');
-  const [isBotSpeaking, setIsBotSpeaking] = useState(false);
-  const [realtimeService, setRealtimeService] =
-    useState<OpenAIRealtimeService | null>(null);
   const [avatarLoaded, setAvatarLoaded] = useState(false);
   const [avatarError, setAvatarError] = useState<string | undefined>();
   const [isBridgeReady, setIsBridgeReady] = useState(false);
   const [isSpeaker, setIsSpeaker] = useState(true); // Default to speaker for both platforms
-  const [hasEndedCall, setHasEndedCall] = useState(false);
+  const [callTurnMode, setCallTurnMode] = useState<TurnMode>('server-vad');
+  const [isTalkHeld, setIsTalkHeld] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [signalQuality, setSignalQuality] = useState<SignalQuality>('unknown');
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [callReplyModality, setCallReplyModality] =
+    useState<ReplyModality>('audio');
 
   // Animation values for loading indicator
   const spinValue = useRef(new Animated.Value(0)).current;
@@ -95,7 +227,7 @@ const AvatarScreen: React.FC = () => {
     const checkBridgeReady = () => {
       // Wait for the bridge to be fully initialized
       setTimeout(() => {
-        console.log('React Native bridge should be ready now');
+        avatarLog.debug('React Native bridge should be ready now');
         setIsBridgeReady(true);
       }, 1000); // Give extra time for bridge initialization
     };
@@ -133,209 +265,204 @@ const AvatarScreen: React.FC = () => {
     }
   }, [avatarLoaded, avatarError]);
 
-  // Filter out unwanted logs
-  useEffect(() => {
-    const originalLog = console.log;
-    const originalWarn = console.warn;
-    const originalError = console.error;
-
-    const shouldFilter = (message: string) => {
-      const filters = [
-        'EXGL:',
-        'gl.pixelStorei',
-        'gl.getParameter',
-        'WebGL',
-        'THREE.WebGLRenderer',
-        'THREE.WebGLProgram',
-        'THREE.WebGLShader',
-      ];
-      return filters.some(filter => message.includes(filter));
-    };
-
-    console.log = (...args) => {
-      const message = args.join(' ');
-      if (!shouldFilter(message)) {
-        originalLog.apply(console, args);
-      }
-    };
-
-    console.warn = (...args) => {
-      const message = args.join(' ');
-      if (!shouldFilter(message)) {
-        originalWarn.apply(console, args);
-      }
-    };
-
-    console.error = (...args) => {
-      const message = args.join(' ');
-      if (!shouldFilter(message)) {
-        originalError.apply(console, args);
-      }
-    };
-
-    return () => {
-      console.log = originalLog;
-      console.warn = originalWarn;
-      console.error = originalError;
-    };
-  }, []);
-
   // Handle avatar load state changes
   const handleAvatarLoadStateChange = useCallback(
     (isLoaded: boolean, error?: string) => {
-      console.log('Avatar load state changed:', {isLoaded, error});
+      avatarLog.debug('Avatar load state changed:', {isLoaded, error});
       setAvatarLoaded(isLoaded);
       setAvatarError(error);
     },
     [],
   );
 
-  // Request microphone permissions for both iOS and Android
-  const requestMicrophonePermission = async (): Promise<boolean> => {
-    try {
-      let permission: Permission;
-
-      if (Platform.OS === 'ios') {
-        permission = PERMISSIONS.IOS.MICROPHONE;
-      } else {
-        permission = PERMISSIONS.ANDROID.RECORD_AUDIO;
-      }
-
-      const result = await request(permission);
-
-      switch (result) {
-        case RESULTS.GRANTED:
-          console.log('Microphone permission granted');
-          return true;
-        case RESULTS.DENIED:
-          console.log('Microphone permission denied');
-          return false;
-        case RESULTS.BLOCKED:
-          console.log('Microphone permission blocked');
-          Alert.alert(
-            'Permission Required',
-            'Microphone permission is required for voice conversations. Please enable it in Settings.',
-            [
-              {text: 'Cancel', style: 'cancel'},
-              {
-                text: 'Open Settings',
-                onPress: () => {
-                  // On iOS, this would ideally open the Settings app
-                  // but React Native doesn't have a built-in way to do this
-                  console.log(
-                    'User should manually enable microphone in Settings',
-                  );
-                },
-              },
-            ],
-          );
-          return false;
-        case RESULTS.UNAVAILABLE:
-          console.log('Microphone not available on this device');
-          Alert.alert(
-            'Microphone Unavailable',
-            'Microphone is not available on this device.',
-          );
-          return false;
-        default:
-          return false;
-      }
-    } catch (error) {
-      console.error('Error requesting microphone permission:', error);
-      return false;
-    }
-  };
+  // Who the user talked to, for the conversation history
+  const callPersonaRef = useRef<AIPersonality>(aiConfig.personality);
 
-  // Callback handlers for the realtime service
+  // Callback handlers for the realtime service; the call state itself comes
+  // from useRealtimeCall
   const realtimeCallbacks: RealtimeCallbacks = {
-    onConnectionStateChange: (state: string) => {
-      console.log('Connection state changed:', state);
-      setConnectionState(state);
-      if (state === 'connected') {
-        setIsConnecting(false);
-        setIsCallActive(true);
-      } else if (state === 'disconnected' || state === 'failed') {
-        setIsConnecting(false);
-        setIsCallActive(false);
-      }
+    onSessionStart: () => {
+      callLog.info('Session started');
     },
-    onTranscriptReceived: (text: string) => {
-      console.log('Transcript received:', text);
-      if (text && typeof text === 'string') {
-        setTranscript(prev => prev + text);
-      }
+    onSessionEnd: () => {
+      callLog.info('Session ended');
+      setSignalQuality('unknown');
+      setSecondsLeft(null);
+      setIsTalkHeld(false);
+      setIsMuted(false);
     },
-    onBotSpeaking: (isSpeaking: boolean) => {
-      console.log('Bot speaking state:', isSpeaking);
-      setIsBotSpeaking(isSpeaking);
+    onTimeRemaining: (seconds: number) => {
+      setSecondsLeft(seconds);
     },
-    onError: (error: string) => {
-      console.error('Realtime service error:', error);
-      setIsConnecting(false);
-      setIsCallActive(false);
-      Alert.alert('Error', `Voice call error: ${error}`);
+    onMetrics: sample => {
+      setSignalQuality(getSignalQuality(sample));
     },
-    onSessionStart: () => {
-      console.log('Session started');
-      setIsCallActive(true);
-      setIsConnecting(false);
+    onCallSummary: summary => {
+      callLog.info('📊 Call summary:', summary);
+      CallSummaryService.saveSummary(summary);
     },
-    onSessionEnd: () => {
-      console.log('Session ended');
-      setIsCallActive(false);
-      setIsConnecting(false);
-      setTranscript('');
-      setIsBotSpeaking(false);
+    onConversationEnd: async conversation => {
+      const record = await ConversationHistoryService.saveConversation(
+        conversation,
+        callPersonaRef.current,
+      );
+      if (conversation.summary) {
+        await MemoryService.rememberConversation(
+          conversation.summary,
+          record?.id,
+        );
+      }
+    },
+    onUsage: responseUsage => {
+      UsageService.recordUsage(responseUsage);
+    },
+    onBudgetWarning: status => {
+      Alert.alert(
+        'Usage limit',
+        `You've used ${formatUsd(status.spentUsd)} of your ${
+          status.scope === 'daily' ? 'daily' : 'per-call'
+        } budget of ${formatUsd(
+          status.limitUsd,
+        )}. The call will end when it runs out.`,
+      );
     },
   };
 
+  const {
+    warmUp: warmUpRealtimeCall,
+    startCall: startRealtimeCall,
+    endCall: endRealtimeCall,
+    lifecycle,
+    isConnecting,
+    isInProgress: isCallActive,
+    isBotSpeaking,
+    conversation,
+    service: realtimeService,
+    error: callError,
+    dismissError,
+  } = useRealtimeCall(realtimeCallbacks);
+  const callUsesMicrophone = realtimeService?.usesMicrophone() ?? false;
+
+  // Calls need a signed-in user; the backend only hands out keys per user
+  const auth = useAuth();
+  const isSignedIn = auth.status === 'signed-in';
+
+  // Call settings from the AI config; the budget needs what was spent today,
+  // the instructions and the end-of-call summary what ChatterBuddy remembers
+  const buildCallConfig = useCallback(
+    (dailySpentUsd: number, memories: RelevantMemories): RealtimeConfig => ({
+      model: 'gpt-4o-mini-realtime-preview-2024-12-17',
+      voice: aiConfig.personality.voice,
+      instructions: AIConfigService.generateSystemPrompt(aiConfig, memories),
+      summaryPrompt: aiConfig.useMemory
+        ? buildSummaryPrompt(memories.facts)
+        : undefined,
+      transport: aiConfig.connection,
+      webSocket: WEBSOCKET_AUDIO,
+      // Backs up WebRTC's playback events; over WebSocket it is all there is
+      audioEndDelayStrategy: 'stream-monitoring',
+      tools: CHATTERBUDDY_TOOLS,
+      turnMode: aiConfig.turnMode,
+      // The service asks for the microphone itself. Without the mic the call
+      // still starts, and the user chats by typing instead.
+      useMicrophone: aiConfig.useMicrophone,
+      replyModality: aiConfig.replyModality,
+      budget: {
+        sessionLimitUsd: aiConfig.sessionBudgetUsd,
+        dailyLimitUsd: aiConfig.dailyBudgetUsd,
+        dailySpentUsd,
+      },
+      idleTimeoutMs: aiConfig.idleTimeoutMinutes
+        ? aiConfig.idleTimeoutMinutes * 60000
+        : undefined,
+      maxCallDurationMs: aiConfig.maxCallMinutes
+        ? aiConfig.maxCallMinutes * 60000
+        : undefined,
+      // Spoken as soon as the session opens
+      greeting: AIConfigService.getGreeting(aiConfig),
+    }),
+    [aiConfig],
+  );
+
   // Start voice call
   const startCall = useCallback(async () => {
-    setHasEndedCall(false);
+    if (!isSignedIn) {
+      navigation.navigate('SignIn');
+      return;
+    }
     try {
-      setIsConnecting(true);
-
-      // Check microphone permissions
-      const hasPermission = await requestMicrophonePermission();
-      if (!hasPermission) {
+      // Don't start a call the daily budget can't pay for
+      const [today, memories] = await Promise.all([
+        UsageService.getTodayUsage(),
+        loadRelevantMemories(),
+      ]);
+      if (aiConfig.dailyBudgetUsd && today.costUsd >= aiConfig.dailyBudgetUsd) {
         Alert.alert(
-          'Permission Required',
-          'Microphone access is required for voice calls.',
+          'Daily limit reached',
+          "You've used up today's talking time. Come back tomorrow, or raise the daily budget in Settings.",
         );
-        setIsConnecting(false);
         return;
       }
 
-      // Configure the realtime service using AI config
-      const config: RealtimeConfig = {
-        model: 'gpt-4o-mini-realtime-preview-2024-12-17',
-        voice: aiConfig.personality.voice,
-        instructions: AIConfigService.generateSystemPrompt(aiConfig),
-        // Use stream monitoring for most accurate animation timing with WebRTC
-        audioEndDelayStrategy: 'stream-monitoring', // Most accurate for WebRTC audio streams
-        audioEndDelayMs: 800, // Only used with 'fixed' strategy (not needed for stream-monitoring)
-      };
-
-      // Create and start the service
-      const service = new OpenAIRealtimeService(config, realtimeCallbacks);
-      setRealtimeService(service);
+      setCallTurnMode(aiConfig.turnMode);
+      setCallReplyModality(aiConfig.replyModality);
+      callPersonaRef.current = aiConfig.personality;
 
-      await service.startCall();
+      await startRealtimeCall(buildCallConfig(today.costUsd, memories), {
+        requestMicrophonePermission,
+      });
+    } catch (error) {
+      // The service reported it already; the error banner offers a retry
+      callLog.error('Error starting call:', error);
+    }
+  }, [startRealtimeCall, buildCallConfig, aiConfig, isSignedIn, navigation]);
 
-      // After successful connection, trigger automatic greeting
-      console.log(
-        '🤖 Connection established, triggering automatic greeting...',
+  // Get the next call ready (key, peer connection) while the avatar loads and
+  // after every call. The mic is only opened early when the call starts by itself.
+  const warmUpNextCall = useCallback(
+    async (microphone: boolean) => {
+      if (!isSignedIn) {
+        return;
+      }
+      const [today, memories] = await Promise.all([
+        UsageService.getTodayUsage(),
+        loadRelevantMemories(),
+      ]);
+      if (aiConfig.dailyBudgetUsd && today.costUsd >= aiConfig.dailyBudgetUsd) {
+        return;
+      }
+      await warmUpRealtimeCall(
+        buildCallConfig(today.costUsd, memories),
+        {requestMicrophonePermission},
+        {microphone},
       );
-      setTimeout(() => {
-        console.log('👋 Auto-starting greeting');
-        service.triggerResponse(AIConfigService.getGreeting(aiConfig));
-      }, 1500); // Give time for the session to be fully ready
-    } catch (error) {
-      console.error('Error starting call:', error);
-      setIsConnecting(false);
-      Alert.alert('Error', 'Failed to start voice call. Please try again.');
+    },
+    [warmUpRealtimeCall, buildCallConfig, aiConfig, isSignedIn],
+  );
+
+  const hasWarmedUpRef = useRef(false);
+  useEffect(() => {
+    if (!settingsLoaded || !isSignedIn || hasWarmedUpRef.current) {
+      return;
     }
-  }, [realtimeCallbacks, aiConfig]);
+    hasWarmedUpRef.current = true;
+    warmUpNextCall(startTalkingOnOpen);
+  }, [settingsLoaded, isSignedIn, startTalkingOnOpen, warmUpNextCall]);
+
+  // Signing out (in Settings, or a session that could not be refreshed) hangs up
+  useEffect(() => {
+    if (auth.status === 'signed-out' && (isCallActive || isConnecting)) {
+      endRealtimeCall().catch(error => {
+        callLog.error('Error ending call after sign-out:', error);
+      });
+    }
+  }, [auth.status, isCallActive, isConnecting, endRealtimeCall]);
+
+  useEffect(() => {
+    if (lifecycle.status === 'ended') {
+      warmUpNextCall(false);
+    }
+  }, [lifecycle.status, warmUpNextCall]);
 
   // Load settings on mount
   useEffect(() => {
@@ -348,43 +475,95 @@ const AvatarScreen: React.FC = () => {
         if (value !== null) setStartTalkingOnOpen(value === 'true');
         setAiConfig(config);
       } catch (error) {
-        console.error('Error loading settings:', error);
+        settingsLog.error('Error loading settings:', error);
       } finally {
         setSettingsLoaded(true);
       }
     })();
   }, []);
 
+  // Pick up changes made in Settings when returning to this screen and apply
+  // them to a running call without hanging up
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', async () => {
+      const config = await AIConfigService.getConfig();
+      setAiConfig(config);
+      if (!realtimeService?.isCallActive()) {
+        return;
+      }
+      try {
+        const memories = await loadRelevantMemories(
+          toSavedTurns(realtimeService.getConversation()),
+        );
+        await realtimeService.updateSession({
+          instructions: AIConfigService.generateSystemPrompt(config, memories),
+          turnMode: config.turnMode,
+          replyModality: config.replyModality,
+        });
+        setCallTurnMode(config.turnMode);
+        setCallReplyModality(config.replyModality);
+      } catch (error) {
+        settingsLog.warn(
+          'Could not apply settings to the running call:',
+          error,
+        );
+      }
+    });
+    return unsubscribe;
+  }, [navigation, realtimeService]);
+
   // Only auto-start if setting is enabled
   useEffect(() => {
-    if (!settingsLoaded) return;
+    if (!settingsLoaded || !isSignedIn) return;
     if (startTalkingOnOpen) {
       setTimeout(() => {
         startCall();
       }, 2000);
     }
-    return () => {
-      if (realtimeService) {
-        endCall();
-      }
-    };
-  }, [settingsLoaded, startTalkingOnOpen]);
+  }, [settingsLoaded, isSignedIn, startTalkingOnOpen]);
 
   // End voice call
   const endCall = useCallback(async () => {
-    setHasEndedCall(true);
-    if (realtimeService) {
-      try {
-        await realtimeService.endCall();
-        setRealtimeService(null);
-      } catch (error) {
-        console.error('Error ending call:', error);
-        Alert.alert('Error', 'Failed to end voice call properly.');
-      }
+    try {
+      await endRealtimeCall();
+    } catch (error) {
+      callLog.error('Error ending call:', error);
+      Alert.alert('Error', 'Failed to end voice call properly.');
+    }
+  }, [endRealtimeCall]);
+
+  const sendTextMessage = useCallback(
+    (text: string) => realtimeService?.sendText(text) || false,
+    [realtimeService],
+  );
+
+  const lastAssistantTurn = [...conversation]
+    .reverse()
+    .find(turn => turn.role === 'assistant');
+  const showReplyBubble =
+    callReplyModality === 'text' && !aiConfig.showCaptions;
+
+  const toggleMute = useCallback(() => {
+    if (!realtimeService) {
+      return;
     }
-    setIsCallActive(false);
-    setIsConnecting(false);
-    setTranscript('');
+    if (realtimeService.isMuted()) {
+      realtimeService.unmute();
+    } else {
+      realtimeService.mute();
+    }
+    setIsMuted(realtimeService.isMuted());
+  }, [realtimeService]);
+
+  // Push-to-talk: the mic is only live while the button is held down
+  const handleTalkPressIn = useCallback(() => {
+    setIsTalkHeld(true);
+    realtimeService?.startPushToTalk();
+  }, [realtimeService]);
+
+  const handleTalkPressOut = useCallback(() => {
+    setIsTalkHeld(false);
+    realtimeService?.stopPushToTalk();
   }, [realtimeService]);
 
   // Get button text and style based on state
@@ -412,18 +591,27 @@ const AvatarScreen: React.FC = () => {
 
   const buttonConfig = getButtonConfig();
 
+  // Loading the avatar comes first, then the call's own lifecycle
+  const statusDisplay: StatusDisplay = avatarError
+    ? {label: 'Failed to load model', icon: 'alert-circle', color: '#f44336'}
+    : !isBridgeReady
+    ? {label: 'Initializing...', icon: 'clock-outline', color: '#888888'}
+    : !avatarLoaded
+    ? {label: 'Loading Model...', icon: 'clock-outline', color: '#ff9800'}
+    : CALL_STATUS_DISPLAY[lifecycle.status];
+
   // Handle audio route change for both iOS and Android
   useEffect(() => {
     try {
       if (isSpeaker) {
         InCallManager.setSpeakerphoneOn(true);
-        console.log('Audio route set to speaker');
+        audioLog.info('Audio route set to speaker');
       } else {
         InCallManager.setSpeakerphoneOn(false);
-        console.log('Audio route set to earpiece/headphones');
+        audioLog.info('Audio route set to earpiece/headphones');
       }
     } catch (error) {
-      console.warn('Error setting audio route:', error);
+      audioLog.warn('Error setting audio route:', error);
     }
   }, [isSpeaker]);
 
@@ -442,43 +630,26 @@ const AvatarScreen: React.FC = () => {
             />
           </TouchableOpacity>
         </View>
+        {isCallActive && callUsesMicrophone && (
+          <TouchableOpacity
+            style={[styles.muteToggle, isMuted && styles.muteToggleActive]}
+            onPress={toggleMute}>
+            <Icon
+              name={isMuted ? 'microphone-off' : 'microphone'}
+              size={responsive.iconSizes.large}
+              color="#ffffff"
+            />
+          </TouchableOpacity>
+        )}
         <View style={styles.statusContainer}>
           <View
             style={[
               styles.statusIndicator,
-              {
-                backgroundColor: avatarError
-                  ? '#f44336'
-                  : !isBridgeReady
-                  ? '#888888'
-                  : !avatarLoaded
-                  ? '#ff9800'
-                  : isConnecting
-                  ? '#ff9800'
-                  : connectionState === 'connected'
-                  ? '#4CAF50'
-                  : hasEndedCall
-                  ? '#f44336'
-                  : '#888888',
-              },
+              {backgroundColor: statusDisplay.color},
             ]}
           />
           <Icon
-            name={
-              avatarError
-                ? 'alert-circle'
-                : !isBridgeReady
-                ? 'clock-outline'
-                : !avatarLoaded
-                ? 'clock-outline'
-                : isConnecting
-                ? 'clock-outline'
-                : connectionState === 'connected'
-                ? 'phone'
-                : hasEndedCall
-                ? 'phone-off'
-                : 'phone-outline'
-            }
+            name={statusDisplay.icon}
             size={responsive.iconSizes.small}
             color="#fff"
             style={{
@@ -486,22 +657,27 @@ const AvatarScreen: React.FC = () => {
               marginLeft: responsive.scale(2),
             }}
           />
-          <Text style={styles.statusText}>
-            {avatarError
-              ? 'Failed to load model'
-              : !isBridgeReady
-              ? 'Initializing...'
-              : !avatarLoaded
-              ? 'Loading Model...'
-              : isConnecting
-              ? 'Connecting...'
-              : connectionState === 'connected'
-              ? 'Connected'
-              : hasEndedCall
-              ? 'Call Ended'
-              : 'Idle'}
-          </Text>
+          <Text style={styles.statusText}>{statusDisplay.label}</Text>
+          {aiConfig.showSignalStrength &&
+            lifecycle.status === 'connected' &&
+            signalQuality !== 'unknown' && (
+              <Icon
+                name={SIGNAL_ICONS[signalQuality].icon}
+                size={responsive.iconSizes.small}
+                color={SIGNAL_ICONS[signalQuality].color}
+                style={styles.signalIcon}
+              />
+            )}
         </View>
+        <TouchableOpacity
+          style={[styles.settingsIcon, styles.historyIcon]}
+          onPress={() => navigation.navigate('History')}>
+          <Icon
+            name="history"
+            size={responsive.iconSizes.large}
+            color="#ffffff"
+          />
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.settingsIcon}
           onPress={() => navigation.navigate('Settings')}>
@@ -509,6 +685,54 @@ const AvatarScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Countdown for the last minute before the maximum call length */}
+      {isCallActive && secondsLeft !== null && (
+        <View style={styles.countdownPill}>
+          <Icon
+            name="timer-sand"
+            size={responsive.iconSizes.small}
+            color="#ffffff"
+          />
+          <Text style={styles.countdownText}>
+            Call ends in {Math.floor(secondsLeft / 60)}:
+            {`${secondsLeft % 60}`.padStart(2, '0')}
+          </Text>
+        </View>
+      )}
+
+      {/* Call errors, with the captions stacked below so neither covers the
+          other */}
+      <View style={styles.topOverlays} pointerEvents="box-none">
+        {callError && (
+          <ErrorBanner
+            error={callError}
+            onRetry={
+              canStartCall(lifecycle)
+                ? () => {
+                    dismissError();
+                    startCall();
+                  }
+                : undefined
+            }
+            onOpenSettings={() => {
+              openSettings().catch(error =>
+                settingsLog.warn('Could not open Settings:', error),
+              );
+            }}
+            onDismiss={dismissError}
+          />
+        )}
+
+        {/* Live captions of both sides of the call */}
+        {isCallActive && aiConfig.showCaptions && (
+          <CaptionsOverlay
+            turns={conversation}
+            size={aiConfig.captionSize}
+            assistantName={aiConfig.personality.name}
+          />
+        )}
+      </View>
+
       {/* Full Screen 3D Avatar Canvas */}
       {isBridgeReady ? (
         <>
@@ -560,7 +784,7 @@ const AvatarScreen: React.FC = () => {
               <Avatar3D
                 isListening={false}
                 isTalking={isBotSpeaking}
-                isMuted={false}
+                isMuted={isMuted}
                 onLoadStateChange={handleAvatarLoadStateChange}
               />
             </Suspense>
@@ -649,9 +873,24 @@ const AvatarScreen: React.FC = () => {
       {/* If startTalkingOnOpen is false, show button to start talking or end call */}
       {settingsLoaded && (
         <View style={styles.bottomLeftButtonContainer}>
-          {!isCallActive &&
-            !isConnecting &&
-            (!startTalkingOnOpen || hasEndedCall) && (
+          {auth.status === 'signed-out' && (
+            <View style={styles.bottomLeftButtonRow}>
+              <TouchableOpacity
+                style={styles.bottomLeftIconButton}
+                onPress={() => navigation.navigate('SignIn')}>
+                <Icon
+                  name="account-circle"
+                  size={responsive.iconSizes.medium}
+                  color="#fff"
+                />
+              </TouchableOpacity>
+              <Text style={styles.bottomLeftButtonText}>Sign In to Talk</Text>
+            </View>
+          )}
+          {isSignedIn &&
+            ((lifecycle.status === 'idle' && !startTalkingOnOpen) ||
+              lifecycle.status === 'ended' ||
+              lifecycle.status === 'failed') && (
               <View style={styles.bottomLeftButtonRow}>
                 <TouchableOpacity
                   style={styles.bottomLeftIconButton}
@@ -698,6 +937,45 @@ const AvatarScreen: React.FC = () => {
         </TouchableOpacity>
       )}
 
+      {/* Typed messages, with text-only replies shown in a chat bubble unless
+          the captions already show them */}
+      {isCallActive && (
+        <ChatPanel
+          onSend={sendTextMessage}
+          replyText={showReplyBubble ? lastAssistantTurn?.text : undefined}
+          isReplyPending={
+            showReplyBubble &&
+            lastAssistantTurn !== undefined &&
+            !lastAssistantTurn.isFinal
+          }
+        />
+      )}
+
+      {/* Hold-to-talk button for push-to-talk calls */}
+      {isCallActive &&
+        callUsesMicrophone &&
+        callTurnMode === 'push-to-talk' && (
+          <View style={styles.pushToTalkContainer}>
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPressIn={handleTalkPressIn}
+              onPressOut={handleTalkPressOut}
+              style={[
+                styles.microphoneCircle,
+                isTalkHeld && styles.microphoneCircleActive,
+              ]}>
+              <Icon
+                name={isTalkHeld ? 'microphone' : 'microphone-outline'}
+                size={responsive.iconSizes.large}
+                color="#ffffff"
+              />
+            </TouchableOpacity>
+            <Text style={styles.talkInstructionText}>
+              {isTalkHeld ? 'Listening...' : 'Hold to talk'}
+            </Text>
+          </View>
+        )}
+
       {/* Call Control Button */}
       <View style={styles.buttonContainer}>
         <View style={styles.talkIndicator}>
@@ -777,6 +1055,24 @@ const styles = StyleSheet.create({
     paddingHorizontal: responsive.padding.horizontal,
     width: '100%',
   },
+  countdownPill: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(120) : responsive.scale(95),
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 152, 0, 0.9)',
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(6),
+    borderRadius: responsive.scale(16),
+    zIndex: 20,
+  },
+  countdownText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+    marginLeft: responsive.scale(6),
+  },
   topBarFlex: {
     flex: 1,
     flexDirection: 'row',
@@ -825,20 +1121,8 @@ const styles = StyleSheet.create({
     fontSize: responsive.scaleFontSize(14),
     fontWeight: '500',
   },
-  transcriptContainer: {
-    position: 'absolute',
-    bottom: 120,
-    left: 20,
-    right: 20,
-    backgroundColor: 'rgba(0, 0, 0, 0.8)',
-    padding: 16,
-    borderRadius: 12,
-    maxHeight: 100,
-  },
-  transcriptText: {
-    color: '#ffffff',
-    fontSize: 14,
-    lineHeight: 20,
+  signalIcon: {
+    marginLeft: responsive.scale(8),
   },
   buttonContainer: {
     position: 'absolute',
@@ -895,6 +1179,24 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  microphoneCircleActive: {
+    backgroundColor: '#2196F3',
+    transform: [{scale: 1.15}],
+  },
+  topOverlays: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(170) : responsive.scale(140),
+    left: responsive.padding.horizontal,
+    right: responsive.padding.horizontal,
+    zIndex: 30,
+  },
+  pushToTalkContainer: {
+    position: 'absolute',
+    bottom: responsive.isTablet ? responsive.scale(50) : responsive.scale(32),
+    right: responsive.scale(30),
+    zIndex: 20,
+    alignItems: 'center',
+  },
   microphoneIcon: {
     fontSize: 24,
     color: '#ffffff',
@@ -1073,6 +1375,9 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 4,
   },
+  historyIcon: {
+    marginRight: responsive.scale(8),
+  },
   audioToggle: {
     backgroundColor: 'rgba(0, 0, 0, 0.6)',
     padding: responsive.scale(12),
@@ -1088,6 +1393,26 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 4,
   },
+  muteToggle: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    padding: responsive.scale(12),
+    borderRadius: responsive.scale(20),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    marginLeft: responsive.scale(10),
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  muteToggleActive: {
+    backgroundColor: 'rgba(244, 67, 54, 0.85)',
+    borderColor: 'rgba(244, 67, 54, 0.4)',
+  },
   bottomLeftButtonContainer: {
     position: 'absolute',
     left: responsive.scale(30),
@@ -0,0 +1,110 @@
+import React, {useRef} from 'react';
+import {View, Text, ScrollView, StyleSheet} from 'react-native';
+import {responsive} from '../utils/responsive';
+import type {ConversationTurn} from '../services/ConversationLog';
+import type {CaptionSize} from '../services/AIConfigService';
+
+// Turns kept on screen; older ones scroll out of the overlay
+const SCROLLBACK_TURNS = 6;
+
+const FONT_SIZES: Record<CaptionSize, number> = {
+  small: 14,
+  medium: 17,
+  large: 22,
+};
+
+interface CaptionsOverlayProps {
+  turns: ConversationTurn[];
+  size: CaptionSize;
+  assistantName: string;
+}
+
+// Live captions for both sides of the call, updated as deltas arrive. Each
+// speaker turn is its own block, and the overlay follows the latest words.
+// The parent positions it, below any error banner.
+const CaptionsOverlay: React.FC<CaptionsOverlayProps> = ({
+  turns,
+  size,
+  assistantName,
+}) => {
+  const scrollRef = useRef<ScrollView>(null);
+  const shown = turns
+    .filter(turn => turn.kind !== 'prompt' && turn.text.trim())
+    .slice(-SCROLLBACK_TURNS);
+
+  if (shown.length === 0) {
+    return null;
+  }
+
+  const fontSize = responsive.scaleFontSize(FONT_SIZES[size]);
+
+  return (
+    <View pointerEvents="box-none">
+      <ScrollView
+        ref={scrollRef}
+        style={[styles.scroll, {maxHeight: fontSize * 1.4 * 6}]}
+        contentContainerStyle={styles.content}
+        onContentSizeChange={() =>
+          scrollRef.current?.scrollToEnd({animated: true})
+        }>
+        {shown.map(turn => (
+          <View
+            key={turn.itemId}
+            style={[
+              styles.turn,
+              turn.role === 'user' ? styles.userTurn : styles.assistantTurn,
+            ]}>
+            <Text
+              style={[
+                styles.speaker,
+                turn.role === 'user' ? styles.userSpeaker : styles.botSpeaker,
+              ]}>
+              {turn.role === 'user' ? 'You' : assistantName}
+            </Text>
+            <Text style={[styles.text, {fontSize, lineHeight: fontSize * 1.4}]}>
+              {turn.text.trim()}
+              {!turn.isFinal && ' …'}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  scroll: {
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: responsive.scale(12),
+  },
+  content: {
+    padding: responsive.scale(12),
+  },
+  turn: {
+    borderLeftWidth: 3,
+    paddingLeft: responsive.scale(10),
+    marginBottom: responsive.scale(8),
+  },
+  userTurn: {
+    borderLeftColor: '#4CAF50',
+  },
+  assistantTurn: {
+    borderLeftColor: '#64b5f6',
+  },
+  speaker: {
+    fontSize: responsive.scaleFontSize(12),
+    fontWeight: '600',
+    marginBottom: responsive.scale(2),
+  },
+  userSpeaker: {
+    color: '#4CAF50',
+  },
+  botSpeaker: {
+    color: '#64b5f6',
+  },
+  text: {
+    color: '#ffffff',
+  },
+});
+
+export default CaptionsOverlay;
@@ -0,0 +1,129 @@
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {responsive} from '../utils/responsive';
+
+interface ChatPanelProps {
+  // Latest assistant reply, shown in a bubble when replies are text-only
+  replyText?: string;
+  isReplyPending?: boolean;
+  onSend: (text: string) => boolean;
+}
+
+// Text input bar for typed messages, with an optional chat bubble above it
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  replyText,
+  isReplyPending,
+  onSend,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const handleSend = () => {
+    if (onSend(draft)) {
+      setDraft('');
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      pointerEvents="box-none">
+      {(replyText || isReplyPending) && (
+        <View style={styles.bubble}>
+          <Text style={styles.bubbleText}>
+            {replyText || 'ChatterBuddy is typing...'}
+          </Text>
+        </View>
+      )}
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Type a message..."
+          placeholderTextColor="#8a8ca0"
+          returnKeyType="send"
+          onSubmitEditing={handleSend}
+          blurOnSubmit={false}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, !draft.trim() && styles.sendDisabled]}
+          onPress={handleSend}
+          disabled={!draft.trim()}>
+          <Icon
+            name="send"
+            size={responsive.iconSizes.medium}
+            color="#ffffff"
+          />
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: responsive.padding.horizontal,
+    right: responsive.padding.horizontal,
+    bottom: responsive.isTablet ? responsive.scale(130) : responsive.scale(100),
+    zIndex: 25,
+  },
+  bubble: {
+    alignSelf: 'flex-start',
+    maxWidth: '85%',
+    backgroundColor: 'rgba(24, 26, 42, 0.92)',
+    borderRadius: responsive.scale(16),
+    borderTopLeftRadius: responsive.scale(4),
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(10),
+    marginBottom: responsive.scale(10),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  bubbleText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(15),
+    lineHeight: responsive.scaleFontSize(21),
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: responsive.scale(24),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingLeft: responsive.scale(16),
+    paddingRight: responsive.scale(6),
+    paddingVertical: responsive.scale(6),
+  },
+  input: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(15),
+    paddingVertical: responsive.scale(6),
+  },
+  sendButton: {
+    width: responsive.scale(38),
+    height: responsive.scale(38),
+    borderRadius: responsive.scale(19),
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: responsive.scale(8),
+  },
+  sendDisabled: {
+    backgroundColor: 'rgba(76, 175, 80, 0.4)',
+  },
+});
+
+export default ChatPanel;
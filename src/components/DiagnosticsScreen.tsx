@@ -0,0 +1,358 @@
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Share,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {responsive} from '../utils/responsive';
+import {
+  diagnostics,
+  DiagnosticsSnapshot,
+  RealtimeEventRecord,
+} from '../services/Diagnostics';
+import {createLogger} from '../services/Logger';
+
+const log = createLogger('settings');
+
+const REFRESH_MS = 1000;
+const MAX_SHOWN_EVENTS = 100;
+
+type DirectionFilter = 'all' | 'sent' | 'received';
+
+const DIRECTION_FILTERS: DirectionFilter[] = ['all', 'sent', 'received'];
+
+// Audio chunks arrive many times a second and drown everything else
+const isAudioChunk = (event: RealtimeEventRecord) =>
+  event.type === 'input_audio_buffer.append' ||
+  event.type.endsWith('audio.delta');
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(11, 23);
+
+const formatNumber = (value: number | undefined, unit: string) =>
+  value === undefined ? '–' : `${Math.round(value)}${unit}`;
+
+// Hidden screen (tap the Settings title five times) for support: what the
+// call, the connection and the 3D scene are doing right now
+const DiagnosticsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(() =>
+    diagnostics.getSnapshot(),
+  );
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const [hideAudio, setHideAudio] = useState(true);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [expandedEventId, setExpandedEventId] = useState<number | null>(null);
+  const [showHierarchy, setShowHierarchy] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(
+      () => setSnapshot(diagnostics.getSnapshot()),
+      REFRESH_MS,
+    );
+    return () => clearInterval(interval);
+  }, []);
+
+  const shownEvents = useMemo(() => {
+    const query = typeFilter.trim().toLowerCase();
+    return snapshot.events
+      .filter(
+        event =>
+          (direction === 'all' || event.direction === direction) &&
+          (!hideAudio || !isAudioChunk(event)) &&
+          (!query || event.type.toLowerCase().includes(query)),
+      )
+      .slice(-MAX_SHOWN_EVENTS)
+      .reverse();
+  }, [snapshot.events, direction, hideAudio, typeFilter]);
+
+  const shareBundle = async () => {
+    try {
+      await Share.share({
+        title: 'ChatterBuddy diagnostics',
+        message: diagnostics.buildBundle(),
+      });
+    } catch (error) {
+      log.warn('Could not share diagnostics:', error);
+    }
+  };
+
+  const {lifecycle, callSettings, stats, scene} = snapshot;
+  const recentStats = stats.slice(-5).reverse();
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}>
+        <Text style={styles.backText}>{'< Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Diagnostics</Text>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.shareButton} onPress={shareBundle}>
+          <Text style={styles.shareText}>Copy or Share Diagnostics</Text>
+        </TouchableOpacity>
+
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Call</Text>
+          <Text style={styles.value}>
+            State: {lifecycle.status}
+            {lifecycle.status === 'failed' ? ` (${lifecycle.reason})` : ''}
+          </Text>
+          {callSettings ? (
+            <>
+              <Text style={styles.value}>
+                Transport: {callSettings.transport}
+              </Text>
+              <Text style={styles.value}>
+                End of speech: {callSettings.audioEndDelayStrategy}
+              </Text>
+              <Text style={styles.value}>
+                Model: {callSettings.model} ({callSettings.voice})
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.description}>No call started yet.</Text>
+          )}
+        </View>
+
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Connection</Text>
+          {recentStats.length === 0 ? (
+            <Text style={styles.description}>No stats yet.</Text>
+          ) : (
+            recentStats.map(sample => (
+              <Text key={sample.timestamp} style={styles.mono}>
+                {formatTime(sample.timestamp)} rtt{' '}
+                {formatNumber(sample.roundTripTimeMs, 'ms')} jitter{' '}
+                {formatNumber(sample.jitterMs, 'ms')} loss{' '}
+                {formatNumber(sample.packetLossPercent, '%')} in{' '}
+                {formatNumber(sample.inboundBitrateKbps, 'kbps')} out{' '}
+                {formatNumber(sample.outboundBitrateKbps, 'kbps')}
+              </Text>
+            ))
+          )}
+        </View>
+
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Realtime events</Text>
+          <View style={styles.optionRow}>
+            {DIRECTION_FILTERS.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[
+                  styles.option,
+                  value === direction && styles.optionSelected,
+                ]}
+                onPress={() => setDirection(value)}>
+                <Text style={styles.optionText}>{value}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.option, hideAudio && styles.optionSelected]}
+              onPress={() => setHideAudio(!hideAudio)}>
+              <Text style={styles.optionText}>hide audio</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.option}
+              onPress={() => {
+                diagnostics.clearEvents();
+                setSnapshot(diagnostics.getSnapshot());
+              }}>
+              <Text style={styles.optionText}>clear</Text>
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={styles.input}
+            value={typeFilter}
+            onChangeText={setTypeFilter}
+            placeholder="Filter by type, e.g. response."
+            placeholderTextColor="#8a8ca0"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {shownEvents.length === 0 && (
+            <Text style={styles.description}>No matching events.</Text>
+          )}
+          {shownEvents.map(event => (
+            <TouchableOpacity
+              key={event.id}
+              onPress={() =>
+                setExpandedEventId(
+                  expandedEventId === event.id ? null : event.id,
+                )
+              }>
+              <Text style={styles.mono}>
+                {formatTime(event.timestamp)}{' '}
+                {event.direction === 'sent' ? '⬆️' : '⬇️'} {event.type}
+                {event.count > 1 && ` ×${event.count}`}
+              </Text>
+              {expandedEventId === event.id && (
+                <Text style={[styles.mono, styles.payload]}>
+                  {JSON.stringify(event.payload, null, 2)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>3D scene</Text>
+          {scene ? (
+            <>
+              <Text style={styles.description}>Animation clips</Text>
+              {scene.animationClips.map(clip => (
+                <Text key={clip.name} style={styles.mono}>
+                  {clip.name} ({clip.durationS.toFixed(2)}s)
+                </Text>
+              ))}
+              <TouchableOpacity
+                onPress={() => setShowHierarchy(!showHierarchy)}>
+                <Text style={styles.link}>
+                  {showHierarchy ? 'Hide' : 'Show'} hierarchy (
+                  {scene.nodes.length} objects)
+                </Text>
+              </TouchableOpacity>
+              {showHierarchy &&
+                scene.nodes.map((node, index) => (
+                  <Text
+                    key={`${index}-${node.name}`}
+                    style={[
+                      styles.mono,
+                      {paddingLeft: node.depth * responsive.scale(10)},
+                      !node.visible && styles.hidden,
+                    ]}>
+                    {node.name} · {node.type}
+                    {node.material ? ` · ${node.material}` : ''}
+                  </Text>
+                ))}
+            </>
+          ) : (
+            <Text style={styles.description}>The avatar has not loaded.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a1a',
+    paddingTop: responsive.isTablet
+      ? responsive.scale(80)
+      : responsive.scale(60),
+    paddingHorizontal: responsive.padding.horizontal,
+  },
+  backButton: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(50) : responsive.scale(30),
+    left: responsive.scale(16),
+    zIndex: 10,
+  },
+  backText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: responsive.scaleFontSize(28),
+    color: '#fff',
+    fontWeight: '700',
+    marginBottom: responsive.scale(24),
+    alignSelf: 'center',
+  },
+  scrollContent: {
+    paddingBottom: responsive.scale(40),
+  },
+  shareButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: responsive.scale(12),
+    paddingVertical: responsive.scale(14),
+    alignItems: 'center',
+    marginBottom: responsive.scale(20),
+  },
+  shareText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  column: {
+    backgroundColor: '#181a2a',
+    borderRadius: responsive.scale(12),
+    padding: responsive.scale(20),
+    marginBottom: responsive.scale(20),
+  },
+  rowTitle: {
+    color: '#fff',
+    fontSize: responsive.scaleFontSize(16),
+    marginBottom: responsive.scale(8),
+  },
+  description: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(13),
+    marginTop: responsive.scale(4),
+  },
+  value: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+    marginTop: responsive.scale(4),
+  },
+  mono: {
+    color: '#d0d2e0',
+    fontFamily: 'Courier',
+    fontSize: responsive.scaleFontSize(12),
+    marginTop: responsive.scale(4),
+  },
+  payload: {
+    color: '#9a9cb0',
+    marginBottom: responsive.scale(6),
+  },
+  hidden: {
+    opacity: 0.5,
+  },
+  link: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(14),
+    marginTop: responsive.scale(12),
+  },
+  input: {
+    backgroundColor: '#0a0a1a',
+    borderRadius: responsive.scale(8),
+    paddingHorizontal: responsive.scale(12),
+    paddingVertical: responsive.scale(8),
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+    marginBottom: responsive.scale(8),
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: responsive.scale(8),
+  },
+  option: {
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(6),
+    borderRadius: responsive.scale(16),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: responsive.scale(8),
+    marginBottom: responsive.scale(8),
+  },
+  optionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  optionText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+  },
+});
+
+export default DiagnosticsScreen;
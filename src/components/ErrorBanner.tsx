@@ -0,0 +1,110 @@
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {RealtimeError} from '../services/RealtimeError';
+import {responsive} from '../utils/responsive';
+
+interface ErrorBannerProps {
+  error: RealtimeError;
+  // Shown when the error is retryable; leave out while a call is still running
+  onRetry?: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+// Inline notice for call errors, with the action the error suggests
+const ErrorBanner: React.FC<ErrorBannerProps> = ({
+  error,
+  onRetry,
+  onOpenSettings,
+  onDismiss,
+}) => {
+  const showRetry = error.retryable && onRetry !== undefined;
+  const showSettings = error.action === 'open-settings';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.messageRow}>
+        <Icon
+          name={error.code === 'permission-denied' ? 'microphone-off' : 'alert'}
+          size={responsive.iconSizes.medium}
+          color="#ffffff"
+        />
+        <Text style={styles.message}>{error.userMessage}</Text>
+        <TouchableOpacity onPress={onDismiss} hitSlop={8}>
+          <Icon
+            name="close"
+            size={responsive.iconSizes.small}
+            color="#ffffff"
+          />
+        </TouchableOpacity>
+      </View>
+      {(showRetry || showSettings) && (
+        <View style={styles.actionRow}>
+          {showSettings && (
+            <TouchableOpacity style={styles.action} onPress={onOpenSettings}>
+              <Text style={styles.actionText}>Open Settings</Text>
+            </TouchableOpacity>
+          )}
+          {showRetry && (
+            <TouchableOpacity style={styles.action} onPress={onRetry}>
+              <Icon
+                name="refresh"
+                size={responsive.iconSizes.small}
+                color="#ffffff"
+              />
+              <Text style={[styles.actionText, styles.actionTextWithIcon]}>
+                Retry
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(244, 67, 54, 0.92)',
+    borderRadius: responsive.scale(14),
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(10),
+    marginBottom: responsive.scale(8),
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  message: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+    lineHeight: responsive.scaleFontSize(19),
+    marginHorizontal: responsive.scale(10),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: responsive.scale(8),
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: responsive.scale(12),
+    paddingHorizontal: responsive.scale(12),
+    paddingVertical: responsive.scale(6),
+    marginLeft: responsive.scale(8),
+  },
+  actionText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+  },
+  actionTextWithIcon: {
+    marginLeft: responsive.scale(4),
+  },
+});
+
+export default ErrorBanner;
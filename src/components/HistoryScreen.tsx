@@ -0,0 +1,322 @@
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SectionList,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {responsive} from '../utils/responsive';
+import {
+  ConversationHistoryService,
+  ConversationRecord,
+} from '../services/ConversationHistoryService';
+import {MemoryService} from '../services/MemoryService';
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const dayLabel = (day: number) => {
+  const today = startOfDay(Date.now());
+  if (day === today) {
+    return 'Today';
+  }
+  // By calendar date: the day before a clock change isn't 24 hours long
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (day === yesterday.getTime()) {
+    return 'Yesterday';
+  }
+  return new Date(day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const timeLabel = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const durationLabel = (record: ConversationRecord) => {
+  const minutes = Math.round((record.endedAt - record.startedAt) / 60000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+};
+
+// Conversations are stored newest first, so each day's section stays in order
+const groupByDay = (conversations: ConversationRecord[]) => {
+  const sections: {title: string; day: number; data: ConversationRecord[]}[] =
+    [];
+  conversations.forEach(record => {
+    const day = startOfDay(record.startedAt);
+    const last = sections[sections.length - 1];
+    if (last && last.day === day) {
+      last.data.push(record);
+    } else {
+      sections.push({title: dayLabel(day), day, data: [record]});
+    }
+  });
+  return sections;
+};
+
+const HistoryScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      setConversations(await ConversationHistoryService.getConversations());
+      setLoading(false);
+    })();
+  }, []);
+
+  const sections = useMemo(() => groupByDay(conversations), [conversations]);
+  const openConversation = conversations.find(record => record.id === openId);
+
+  const confirmDelete = (record: ConversationRecord) => {
+    Alert.alert(
+      'Delete conversation?',
+      `This removes the conversation from ${timeLabel(
+        record.startedAt,
+      )} on this device, and ChatterBuddy's summary of it.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await Promise.all([
+              ConversationHistoryService.deleteConversation(record.id),
+              MemoryService.deleteConversationsFor(record.id),
+            ]);
+            setConversations(current =>
+              current.filter(item => item.id !== record.id),
+            );
+            setOpenId(null);
+          },
+        },
+      ],
+    );
+  };
+
+  // The first thing the user said, so conversations can be told apart
+  const preview = (record: ConversationRecord) =>
+    (record.turns.find(turn => turn.role === 'user') || record.turns[0]).text;
+
+  const renderTranscript = (record: ConversationRecord) => (
+    <>
+      <Text style={styles.subtitle}>
+        {dayLabel(startOfDay(record.startedAt))}, {timeLabel(record.startedAt)}{' '}
+        · {durationLabel(record)} with {record.persona.name}
+      </Text>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {record.turns.map((turn, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bubble,
+              turn.role === 'user' ? styles.userBubble : styles.botBubble,
+            ]}>
+            <Text style={styles.speaker}>
+              {turn.role === 'user' ? 'You' : record.persona.name}
+            </Text>
+            <Text style={styles.turnText}>{turn.text}</Text>
+            {turn.interrupted && (
+              <Text style={styles.interrupted}>(interrupted)</Text>
+            )}
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => confirmDelete(record)}>
+          <Text style={styles.deleteText}>Delete Conversation</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </>
+  );
+
+  const renderList = () => (
+    <SectionList
+      sections={sections}
+      keyExtractor={record => record.id}
+      contentContainerStyle={styles.scrollContent}
+      stickySectionHeadersEnabled={false}
+      renderSectionHeader={({section}) => (
+        <Text style={styles.sectionTitle}>{section.title}</Text>
+      )}
+      renderItem={({item}) => (
+        <TouchableOpacity style={styles.row} onPress={() => setOpenId(item.id)}>
+          <View style={styles.labelContainer}>
+            <Text style={styles.rowTitle}>
+              {timeLabel(item.startedAt)} · {durationLabel(item)}
+            </Text>
+            <Text style={styles.description} numberOfLines={2}>
+              {preview(item)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => confirmDelete(item)}
+            hitSlop={{top: 10, bottom: 10, left: 10, right: 10}}>
+            <Icon
+              name="trash-can-outline"
+              size={responsive.iconSizes.small}
+              color="#9a9cb0"
+            />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      )}
+      ListEmptyComponent={
+        <Text style={styles.empty}>
+          {loading
+            ? 'Loading…'
+            : 'No conversations yet. Your calls with ChatterBuddy will show up here.'}
+        </Text>
+      }
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() =>
+          openConversation ? setOpenId(null) : navigation.goBack()
+        }>
+        <Text style={styles.backText}>{'< Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>
+        {openConversation ? 'Conversation' : 'History'}
+      </Text>
+      {openConversation ? renderTranscript(openConversation) : renderList()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a1a',
+    paddingTop: responsive.isTablet
+      ? responsive.scale(80)
+      : responsive.scale(60),
+    paddingHorizontal: responsive.padding.horizontal,
+  },
+  backButton: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(50) : responsive.scale(30),
+    left: responsive.scale(16),
+    zIndex: 10,
+  },
+  backText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: responsive.scaleFontSize(28),
+    color: '#fff',
+    fontWeight: '700',
+    marginBottom: responsive.scale(24),
+    alignSelf: 'center',
+  },
+  subtitle: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(13),
+    marginBottom: responsive.scale(16),
+    alignSelf: 'center',
+  },
+  scrollContent: {
+    paddingBottom: responsive.scale(40),
+  },
+  sectionTitle: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+    marginTop: responsive.scale(8),
+    marginBottom: responsive.scale(8),
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#181a2a',
+    borderRadius: responsive.scale(12),
+    padding: responsive.scale(16),
+    marginBottom: responsive.scale(12),
+  },
+  labelContainer: {
+    flex: 1,
+    marginRight: responsive.scale(12),
+  },
+  rowTitle: {
+    color: '#fff',
+    fontSize: responsive.scaleFontSize(16),
+  },
+  description: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(13),
+    marginTop: responsive.scale(4),
+  },
+  empty: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(14),
+    textAlign: 'center',
+    marginTop: responsive.scale(40),
+  },
+  bubble: {
+    borderRadius: responsive.scale(12),
+    padding: responsive.scale(12),
+    marginBottom: responsive.scale(10),
+    maxWidth: '85%',
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: 'rgba(76, 175, 80, 0.4)',
+  },
+  botBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#181a2a',
+  },
+  speaker: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: responsive.scaleFontSize(12),
+    marginBottom: responsive.scale(4),
+  },
+  turnText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(15),
+  },
+  interrupted: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: responsive.scaleFontSize(12),
+    fontStyle: 'italic',
+    marginTop: responsive.scale(4),
+  },
+  deleteButton: {
+    alignSelf: 'center',
+    paddingHorizontal: responsive.scale(16),
+    paddingVertical: responsive.scale(10),
+    borderRadius: responsive.scale(8),
+    borderWidth: 1,
+    borderColor: '#f44336',
+    marginTop: responsive.scale(16),
+  },
+  deleteText: {
+    color: '#f44336',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+  },
+});
+
+export default HistoryScreen;
@@ -0,0 +1,306 @@
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {responsive} from '../utils/responsive';
+import {
+  ConversationMemory,
+  MemoryFact,
+  MemoryService,
+} from '../services/MemoryService';
+
+// What ChatterBuddy remembers about the user, for review and correction
+const MemoryScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [conversations, setConversations] = useState<ConversationMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const load = async () => {
+    const [storedFacts, storedConversations] = await Promise.all([
+      MemoryService.getFacts(),
+      MemoryService.getConversations(),
+    ]);
+    setFacts(storedFacts);
+    setConversations(storedConversations);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const startEditing = (fact: MemoryFact) => {
+    setEditingId(fact.id);
+    setDraft(fact.text);
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) {
+      return;
+    }
+    const text = draft.trim();
+    if (text) {
+      await MemoryService.updateFact(editingId, text);
+    } else {
+      await MemoryService.deleteFact(editingId);
+    }
+    setEditingId(null);
+    await load();
+  };
+
+  const deleteFact = async (id: string) => {
+    await MemoryService.deleteFact(id);
+    await load();
+  };
+
+  const deleteConversation = async (id: string) => {
+    await MemoryService.deleteConversation(id);
+    await load();
+  };
+
+  const confirmForgetEverything = () => {
+    Alert.alert(
+      'Forget everything?',
+      'ChatterBuddy will no longer remember anything from earlier calls. Saved conversations in History are kept.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            await MemoryService.clearMemories();
+            await load();
+          },
+        },
+      ],
+    );
+  };
+
+  const renderFact = (fact: MemoryFact) =>
+    editingId === fact.id ? (
+      <View key={fact.id} style={styles.item}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          onSubmitEditing={saveEdit}
+          autoFocus
+          multiline
+          blurOnSubmit
+        />
+        <TouchableOpacity style={styles.iconButton} onPress={saveEdit}>
+          <Icon
+            name="check"
+            size={responsive.iconSizes.small}
+            color="#4CAF50"
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => setEditingId(null)}>
+          <Icon
+            name="close"
+            size={responsive.iconSizes.small}
+            color="#9a9cb0"
+          />
+        </TouchableOpacity>
+      </View>
+    ) : (
+      <View key={fact.id} style={styles.item}>
+        <Text style={styles.itemText}>{fact.text}</Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => startEditing(fact)}>
+          <Icon
+            name="pencil-outline"
+            size={responsive.iconSizes.small}
+            color="#9a9cb0"
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => deleteFact(fact.id)}>
+          <Icon
+            name="trash-can-outline"
+            size={responsive.iconSizes.small}
+            color="#9a9cb0"
+          />
+        </TouchableOpacity>
+      </View>
+    );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}>
+        <Text style={styles.backText}>{'< Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Memory</Text>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled">
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Things ChatterBuddy remembers</Text>
+          <Text style={styles.description}>
+            Learned at the end of each call. Tap the pencil to correct one.
+          </Text>
+          {!loading && facts.length === 0 && (
+            <Text style={styles.empty}>Nothing yet.</Text>
+          )}
+          {facts.map(renderFact)}
+        </View>
+
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Recent conversations</Text>
+          <Text style={styles.description}>
+            The few that fit what you talked about last are mentioned to
+            ChatterBuddy when a call starts.
+          </Text>
+          {!loading && conversations.length === 0 && (
+            <Text style={styles.empty}>Nothing yet.</Text>
+          )}
+          {conversations.map(memory => (
+            <View key={memory.id} style={styles.item}>
+              <View style={styles.itemTextContainer}>
+                <Text style={styles.itemDate}>
+                  {new Date(memory.createdAt).toLocaleDateString()}
+                </Text>
+                <Text style={styles.itemText}>{memory.summary}</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => deleteConversation(memory.id)}>
+                <Icon
+                  name="trash-can-outline"
+                  size={responsive.iconSizes.small}
+                  color="#9a9cb0"
+                />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={styles.forgetButton}
+          onPress={confirmForgetEverything}
+          disabled={loading}>
+          <Text style={styles.forgetText}>Forget Everything</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a1a',
+    paddingTop: responsive.isTablet
+      ? responsive.scale(80)
+      : responsive.scale(60),
+    paddingHorizontal: responsive.padding.horizontal,
+  },
+  backButton: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(50) : responsive.scale(30),
+    left: responsive.scale(16),
+    zIndex: 10,
+  },
+  backText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: responsive.scaleFontSize(28),
+    color: '#fff',
+    fontWeight: '700',
+    marginBottom: responsive.scale(24),
+    alignSelf: 'center',
+  },
+  scrollContent: {
+    paddingBottom: responsive.scale(40),
+  },
+  column: {
+    backgroundColor: '#181a2a',
+    borderRadius: responsive.scale(12),
+    padding: responsive.scale(20),
+    marginBottom: responsive.scale(20),
+  },
+  rowTitle: {
+    color: '#fff',
+    fontSize: responsive.scaleFontSize(16),
+  },
+  description: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(13),
+    marginTop: responsive.scale(4),
+    marginBottom: responsive.scale(8),
+  },
+  empty: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(14),
+    fontStyle: 'italic',
+    marginTop: responsive.scale(8),
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: responsive.scale(10),
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  itemTextContainer: {
+    flex: 1,
+  },
+  itemText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(15),
+  },
+  itemDate: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(12),
+    marginBottom: responsive.scale(2),
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#0a0a1a',
+    borderRadius: responsive.scale(8),
+    paddingHorizontal: responsive.scale(10),
+    paddingVertical: responsive.scale(6),
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(15),
+  },
+  iconButton: {
+    padding: responsive.scale(6),
+    marginLeft: responsive.scale(4),
+  },
+  forgetButton: {
+    alignSelf: 'center',
+    paddingHorizontal: responsive.scale(16),
+    paddingVertical: responsive.scale(10),
+    borderRadius: responsive.scale(8),
+    borderWidth: 1,
+    borderColor: '#f44336',
+  },
+  forgetText: {
+    color: '#f44336',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+  },
+});
+
+export default MemoryScreen;
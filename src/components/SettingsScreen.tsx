@@ -1,20 +1,91 @@
-import React, {useEffect, useState} from 'react';
-import {View, Text, Switch, StyleSheet, TouchableOpacity} from 'react-native';
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  Switch,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {useNavigation} from '@react-navigation/native';
 import {responsive} from '../utils/responsive';
+import {AIConfigService, CaptionSize} from '../services/AIConfigService';
+import type {TransportKind} from '../services/transports/RealtimeTransport';
+import {UsageService} from '../services/UsageService';
+import {formatUsd} from '../services/TokenUsage';
+import {authService} from '../services/AuthService';
+import {useAuth} from '../hooks/useAuth';
+import {createLogger} from '../services/Logger';
+
+const log = createLogger('settings');
 
 const STORAGE_KEY = 'startTalkingOnOpen';
 
+// null means no limit
+const SESSION_BUDGET_OPTIONS: (number | null)[] = [null, 0.1, 0.25, 0.5, 1];
+const DAILY_BUDGET_OPTIONS: (number | null)[] = [null, 0.5, 1, 2, 5];
+
+const IDLE_TIMEOUT_OPTIONS: (number | null)[] = [null, 1, 2, 3, 5, 10];
+const MAX_CALL_OPTIONS: (number | null)[] = [null, 10, 20, 30, 60];
+
+// Taps on the title, each within a second of the last, that open Diagnostics
+const DIAGNOSTICS_TAPS = 5;
+const DIAGNOSTICS_TAP_WINDOW_MS = 1000;
+
+const CAPTION_SIZE_OPTIONS: CaptionSize[] = ['small', 'medium', 'large'];
+const CONNECTION_OPTIONS: TransportKind[] = ['webrtc', 'websocket'];
+
+const budgetLabel = (amount: number | null) =>
+  amount === null ? 'Off' : formatUsd(amount);
+const minutesLabel = (minutes: number | null) =>
+  minutes === null ? 'Off' : `${minutes} min`;
+const captionSizeLabel = (size: CaptionSize) =>
+  size.charAt(0).toUpperCase() + size.slice(1);
+const connectionLabel = (connection: TransportKind) =>
+  connection === 'webrtc' ? 'Standard' : 'Compatibility';
+
 const SettingsScreen: React.FC = () => {
   const navigation = useNavigation();
+  const auth = useAuth();
   const [startTalking, setStartTalking] = useState(true);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [spokenReplies, setSpokenReplies] = useState(true);
+  const [useMicrophone, setUseMicrophone] = useState(true);
+  const [showSignalStrength, setShowSignalStrength] = useState(true);
+  const [sessionBudget, setSessionBudget] = useState<number | null>(null);
+  const [dailyBudget, setDailyBudget] = useState<number | null>(null);
+  const [spentToday, setSpentToday] = useState(0);
+  const [idleTimeout, setIdleTimeout] = useState<number | null>(null);
+  const [maxCall, setMaxCall] = useState<number | null>(null);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [captionSize, setCaptionSize] = useState<CaptionSize>('medium');
+  const [useMemory, setUseMemory] = useState(true);
+  const [connection, setConnection] = useState<TransportKind>('webrtc');
   const [loading, setLoading] = useState(true);
+  const titleTaps = useRef({count: 0, lastAt: 0});
 
   useEffect(() => {
     (async () => {
-      const value = await AsyncStorage.getItem(STORAGE_KEY);
+      const [value, config, today] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AIConfigService.getConfig(),
+        UsageService.getTodayUsage(),
+      ]);
       if (value !== null) setStartTalking(value === 'true');
+      setPushToTalk(config.turnMode === 'push-to-talk');
+      setSpokenReplies(config.replyModality === 'audio');
+      setUseMicrophone(config.useMicrophone);
+      setShowSignalStrength(config.showSignalStrength);
+      setSessionBudget(config.sessionBudgetUsd);
+      setDailyBudget(config.dailyBudgetUsd);
+      setSpentToday(today.costUsd);
+      setIdleTimeout(config.idleTimeoutMinutes);
+      setMaxCall(config.maxCallMinutes);
+      setShowCaptions(config.showCaptions);
+      setCaptionSize(config.captionSize);
+      setUseMemory(config.useMemory);
+      setConnection(config.connection);
       setLoading(false);
     })();
   }, []);
@@ -25,6 +96,113 @@ const SettingsScreen: React.FC = () => {
     await AsyncStorage.setItem(STORAGE_KEY, newValue ? 'true' : 'false');
   };
 
+  const togglePushToTalk = async () => {
+    const newValue = !pushToTalk;
+    setPushToTalk(newValue);
+    await AIConfigService.saveConfig({
+      turnMode: newValue ? 'push-to-talk' : 'server-vad',
+    });
+  };
+
+  const toggleSpokenReplies = async () => {
+    const newValue = !spokenReplies;
+    setSpokenReplies(newValue);
+    await AIConfigService.saveConfig({
+      replyModality: newValue ? 'audio' : 'text',
+    });
+  };
+
+  const toggleUseMicrophone = async () => {
+    const newValue = !useMicrophone;
+    setUseMicrophone(newValue);
+    await AIConfigService.saveConfig({useMicrophone: newValue});
+  };
+
+  const toggleShowSignalStrength = async () => {
+    const newValue = !showSignalStrength;
+    setShowSignalStrength(newValue);
+    await AIConfigService.saveConfig({showSignalStrength: newValue});
+  };
+
+  const toggleShowCaptions = async () => {
+    const newValue = !showCaptions;
+    setShowCaptions(newValue);
+    await AIConfigService.saveConfig({showCaptions: newValue});
+  };
+
+  const selectCaptionSize = async (size: CaptionSize) => {
+    setCaptionSize(size);
+    await AIConfigService.saveConfig({captionSize: size});
+  };
+
+  const toggleUseMemory = async () => {
+    const newValue = !useMemory;
+    setUseMemory(newValue);
+    await AIConfigService.saveConfig({useMemory: newValue});
+  };
+
+  const selectConnection = async (kind: TransportKind) => {
+    setConnection(kind);
+    await AIConfigService.saveConfig({connection: kind});
+  };
+
+  const selectSessionBudget = async (amount: number | null) => {
+    setSessionBudget(amount);
+    await AIConfigService.saveConfig({sessionBudgetUsd: amount});
+  };
+
+  const selectDailyBudget = async (amount: number | null) => {
+    setDailyBudget(amount);
+    await AIConfigService.saveConfig({dailyBudgetUsd: amount});
+  };
+
+  const selectIdleTimeout = async (minutes: number | null) => {
+    setIdleTimeout(minutes);
+    await AIConfigService.saveConfig({idleTimeoutMinutes: minutes});
+  };
+
+  const selectMaxCall = async (minutes: number | null) => {
+    setMaxCall(minutes);
+    await AIConfigService.saveConfig({maxCallMinutes: minutes});
+  };
+
+  const renderOptions = <T extends number | string | null>(
+    options: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    label: (value: T) => string,
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map(value => (
+        <TouchableOpacity
+          key={label(value)}
+          style={[styles.option, value === selected && styles.optionSelected]}
+          onPress={() => onSelect(value)}
+          disabled={loading}>
+          <Text
+            style={[
+              styles.optionText,
+              value === selected && styles.optionTextSelected,
+            ]}>
+            {label(value)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const onTitlePress = () => {
+    const now = Date.now();
+    const taps = titleTaps.current;
+    taps.count =
+      now - taps.lastAt < DIAGNOSTICS_TAP_WINDOW_MS ? taps.count + 1 : 1;
+    taps.lastAt = now;
+    if (taps.count >= DIAGNOSTICS_TAPS) {
+      taps.count = 0;
+      navigation.navigate('Diagnostics' as never);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <TouchableOpacity
@@ -32,15 +210,198 @@ const SettingsScreen: React.FC = () => {
         onPress={() => navigation.goBack()}>
         <Text style={styles.backText}>{'< Back'}</Text>
       </TouchableOpacity>
-      <Text style={styles.title}>Settings</Text>
-      <View style={styles.row}>
-        <Text style={styles.label}>Start talking as soon as app opens</Text>
-        <Switch
-          value={startTalking}
-          onValueChange={toggleSwitch}
-          disabled={loading}
-        />
-      </View>
+      <Text style={styles.title} onPress={onTitlePress} suppressHighlighting>
+        Settings
+      </Text>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {auth.status === 'signed-in' && (
+          <View style={styles.row}>
+            <View style={styles.labelContainer}>
+              <Text style={styles.rowTitle}>Account</Text>
+              <Text style={styles.description}>
+                Signed in as {auth.user.email}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.signOutButton}
+              onPress={() => {
+                authService.signOut().catch(error => {
+                  log.error('Error signing out:', error);
+                });
+              }}>
+              <Text style={styles.signOutText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <View style={styles.row}>
+          <Text style={styles.label}>Start talking as soon as app opens</Text>
+          <Switch
+            value={startTalking}
+            onValueChange={toggleSwitch}
+            disabled={loading}
+          />
+        </View>
+        <View style={styles.row}>
+          <View style={styles.labelContainer}>
+            <Text style={styles.rowTitle}>Push-to-talk</Text>
+            <Text style={styles.description}>
+              Hold the microphone button to speak instead of letting
+              ChatterBuddy listen all the time. Useful in noisy places.
+            </Text>
+          </View>
+          <Switch
+            value={pushToTalk}
+            onValueChange={togglePushToTalk}
+            disabled={loading || !useMicrophone}
+          />
+        </View>
+        <View style={styles.row}>
+          <View style={styles.labelContainer}>
+            <Text style={styles.rowTitle}>Use microphone</Text>
+            <Text style={styles.description}>
+              Turn off to chat by typing only. The app will not ask for
+              microphone access.
+            </Text>
+          </View>
+          <Switch
+            value={useMicrophone}
+            onValueChange={toggleUseMicrophone}
+            disabled={loading}
+          />
+        </View>
+        <View style={styles.row}>
+          <View style={styles.labelContainer}>
+            <Text style={styles.rowTitle}>Spoken replies</Text>
+            <Text style={styles.description}>
+              Turn off to get ChatterBuddy's replies as text in a chat bubble.
+            </Text>
+          </View>
+          <Switch
+            value={spokenReplies}
+            onValueChange={toggleSpokenReplies}
+            disabled={loading}
+          />
+        </View>
+        <View style={styles.row}>
+          <View style={styles.labelContainer}>
+            <Text style={styles.rowTitle}>Signal strength</Text>
+            <Text style={styles.description}>
+              Show connection quality next to the call status.
+            </Text>
+          </View>
+          <Switch
+            value={showSignalStrength}
+            onValueChange={toggleShowSignalStrength}
+            disabled={loading}
+          />
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Connection</Text>
+          <Text style={styles.description}>
+            Try Compatibility if calls don't connect, e.g. on a work or school
+            network. Replies may take a little longer.
+          </Text>
+          {renderOptions(
+            CONNECTION_OPTIONS,
+            connection,
+            selectConnection,
+            connectionLabel,
+          )}
+        </View>
+        <View style={styles.column}>
+          <View style={styles.columnHeader}>
+            <View style={styles.labelContainer}>
+              <Text style={styles.rowTitle}>Captions</Text>
+              <Text style={styles.description}>
+                Show what you and ChatterBuddy say as text over the avatar.
+              </Text>
+            </View>
+            <Switch
+              value={showCaptions}
+              onValueChange={toggleShowCaptions}
+              disabled={loading}
+            />
+          </View>
+          {showCaptions &&
+            renderOptions(
+              CAPTION_SIZE_OPTIONS,
+              captionSize,
+              selectCaptionSize,
+              captionSizeLabel,
+            )}
+        </View>
+        <View style={styles.column}>
+          <View style={styles.columnHeader}>
+            <View style={styles.labelContainer}>
+              <Text style={styles.rowTitle}>Memory</Text>
+              <Text style={styles.description}>
+                ChatterBuddy remembers what you talked about and things you
+                mentioned, like names and plans, for your next calls.
+              </Text>
+            </View>
+            <Switch
+              value={useMemory}
+              onValueChange={toggleUseMemory}
+              disabled={loading}
+            />
+          </View>
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => navigation.navigate('Memory' as never)}>
+            <Text style={styles.linkText}>Manage memories</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Hang up when idle</Text>
+          <Text style={styles.description}>
+            If you go quiet this long, ChatterBuddy asks if you're still there
+            and ends the call when nobody answers.
+          </Text>
+          {renderOptions(
+            IDLE_TIMEOUT_OPTIONS,
+            idleTimeout,
+            selectIdleTimeout,
+            minutesLabel,
+          )}
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Maximum call length</Text>
+          <Text style={styles.description}>
+            A countdown appears in the last minute.
+          </Text>
+          {renderOptions(
+            MAX_CALL_OPTIONS,
+            maxCall,
+            selectMaxCall,
+            minutesLabel,
+          )}
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Daily budget</Text>
+          <Text style={styles.description}>
+            Estimated spend per day. ChatterBuddy says goodbye and hangs up when
+            it is used up. Used today: {formatUsd(spentToday)}
+          </Text>
+          {renderOptions(
+            DAILY_BUDGET_OPTIONS,
+            dailyBudget,
+            selectDailyBudget,
+            budgetLabel,
+          )}
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.rowTitle}>Per-call budget</Text>
+          <Text style={styles.description}>
+            Estimated spend for a single call.
+          </Text>
+          {renderOptions(
+            SESSION_BUDGET_OPTIONS,
+            sessionBudget,
+            selectSessionBudget,
+            budgetLabel,
+          )}
+        </View>
+      </ScrollView>
     </View>
   );
 };
@@ -87,6 +448,78 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: responsive.scale(10),
   },
+  labelContainer: {
+    flex: 1,
+    marginRight: responsive.scale(10),
+  },
+  rowTitle: {
+    color: '#fff',
+    fontSize: responsive.scaleFontSize(16),
+  },
+  description: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(13),
+    marginTop: responsive.scale(4),
+  },
+  scrollContent: {
+    paddingBottom: responsive.scale(40),
+  },
+  column: {
+    backgroundColor: '#181a2a',
+    borderRadius: responsive.scale(12),
+    padding: responsive.scale(20),
+    marginBottom: responsive.scale(20),
+  },
+  linkButton: {
+    marginTop: responsive.scale(12),
+  },
+  linkText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: responsive.scale(12),
+  },
+  option: {
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(6),
+    borderRadius: responsive.scale(16),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: responsive.scale(8),
+    marginBottom: responsive.scale(8),
+  },
+  optionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  optionText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(14),
+  },
+  optionTextSelected: {
+    fontWeight: '600',
+  },
+  signOutButton: {
+    paddingHorizontal: responsive.scale(14),
+    paddingVertical: responsive.scale(8),
+    borderRadius: responsive.scale(16),
+    borderWidth: 1,
+    borderColor: '#f44336',
+  },
+  signOutText: {
+    color: '#f44336',
+    fontSize: responsive.scaleFontSize(14),
+    fontWeight: '600',
+  },
 });
 
 export default SettingsScreen;
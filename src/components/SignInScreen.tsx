@@ -0,0 +1,231 @@
+import React, {useState} from 'react';
+import {
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {responsive} from '../utils/responsive';
+import {authService} from '../services/AuthService';
+import {BackendError} from '../services/BackendClient';
+import {createLogger} from '../services/Logger';
+
+const log = createLogger('auth');
+
+type Step = 'email' | 'code';
+
+const signInErrorMessage = (error: unknown, step: Step): string => {
+  if (error instanceof BackendError) {
+    if (error.status === 429) {
+      return 'Too many attempts. Please wait a minute and try again.';
+    }
+    if (step === 'code' && (error.status === 400 || error.status === 401)) {
+      return "That code didn't work. Check your email and try again.";
+    }
+    if (step === 'email' && error.status === 400) {
+      return 'Please enter a valid email address.';
+    }
+  }
+  return "Couldn't reach ChatterBuddy. Check your connection and try again.";
+};
+
+// Email sign-in with a one-time code. Goes back to the previous screen once
+// signed in.
+const SignInScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [step, setStep] = useState<Step>('email');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendCode = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await authService.requestCode(email);
+      setCode('');
+      setStep('code');
+    } catch (requestError) {
+      log.warn('Could not send the sign-in code:', requestError);
+      setError(signInErrorMessage(requestError, 'email'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await authService.signIn(email, code);
+      navigation.goBack();
+    } catch (verifyError) {
+      log.warn('Could not sign in:', verifyError);
+      setError(signInErrorMessage(verifyError, 'code'));
+      setBusy(false);
+    }
+  };
+
+  const canSubmit =
+    !busy && (step === 'email' ? email.includes('@') : code.trim().length > 0);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}>
+        <Text style={styles.backText}>{'< Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>Sign In</Text>
+      <Text style={styles.description}>
+        {step === 'email'
+          ? "Enter your email and we'll send you a sign-in code."
+          : `We sent a code to ${email.trim()}. Enter it below.`}
+      </Text>
+
+      {step === 'email' ? (
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          placeholder="you@example.com"
+          placeholderTextColor="#8a8ca0"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoComplete="email"
+          returnKeyType="send"
+          onSubmitEditing={() => canSubmit && sendCode()}
+          editable={!busy}
+        />
+      ) : (
+        <TextInput
+          style={[styles.input, styles.codeInput]}
+          value={code}
+          onChangeText={setCode}
+          placeholder="123456"
+          placeholderTextColor="#8a8ca0"
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          returnKeyType="done"
+          onSubmitEditing={() => canSubmit && verifyCode()}
+          editable={!busy}
+        />
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[styles.button, !canSubmit && styles.buttonDisabled]}
+        onPress={step === 'email' ? sendCode : verifyCode}
+        disabled={!canSubmit}>
+        {busy ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text style={styles.buttonText}>
+            {step === 'email' ? 'Send Code' : 'Sign In'}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      {step === 'code' && (
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => {
+            setError(null);
+            setStep('email');
+          }}
+          disabled={busy}>
+          <Text style={styles.linkText}>Use a different email</Text>
+        </TouchableOpacity>
+      )}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a1a',
+    paddingTop: responsive.isTablet
+      ? responsive.scale(80)
+      : responsive.scale(60),
+    paddingHorizontal: responsive.padding.horizontal,
+  },
+  backButton: {
+    position: 'absolute',
+    top: responsive.isTablet ? responsive.scale(50) : responsive.scale(30),
+    left: responsive.scale(16),
+    zIndex: 10,
+  },
+  backText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: responsive.scaleFontSize(28),
+    color: '#fff',
+    fontWeight: '700',
+    marginBottom: responsive.scale(16),
+    alignSelf: 'center',
+  },
+  description: {
+    color: '#9a9cb0',
+    fontSize: responsive.scaleFontSize(15),
+    textAlign: 'center',
+    marginBottom: responsive.scale(32),
+  },
+  input: {
+    backgroundColor: '#181a2a',
+    borderRadius: responsive.scale(12),
+    paddingHorizontal: responsive.scale(20),
+    paddingVertical: responsive.scale(16),
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(16),
+  },
+  codeInput: {
+    fontSize: responsive.scaleFontSize(24),
+    letterSpacing: responsive.scale(8),
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: responsive.scaleFontSize(14),
+    marginTop: responsive.scale(12),
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    borderRadius: responsive.scale(12),
+    paddingVertical: responsive.scale(16),
+    alignItems: 'center',
+    marginTop: responsive.scale(24),
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: responsive.scaleFontSize(16),
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignSelf: 'center',
+    marginTop: responsive.scale(20),
+  },
+  linkText: {
+    color: '#4CAF50',
+    fontSize: responsive.scaleFontSize(14),
+  },
+});
+
+export default SignInScreen;
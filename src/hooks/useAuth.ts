@@ -0,0 +1,21 @@
+import {useEffect, useState} from 'react';
+import {AuthState, authService} from '../services/AuthService';
+import {createLogger} from '../services/Logger';
+
+const log = createLogger('auth');
+
+// The current sign-in state; restores the stored session on first use
+export const useAuth = (): AuthState => {
+  const [state, setState] = useState<AuthState>(authService.getState());
+
+  useEffect(() => {
+    const unsubscribe = authService.subscribe(setState);
+    setState(authService.getState());
+    authService.restore().catch(error => {
+      log.error('Error restoring the auth session:', error);
+    });
+    return unsubscribe;
+  }, []);
+
+  return state;
+};
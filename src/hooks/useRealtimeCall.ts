@@ -0,0 +1,173 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {
+  OpenAIRealtimeService,
+  RealtimeCallbacks,
+  RealtimeConfig,
+  RealtimeServiceDependencies,
+} from '../services/OpenAIRealtimeService';
+import {
+  CallLifecycleState,
+  isCallConnecting,
+  isCallInProgress,
+} from '../services/CallLifecycle';
+import {ConversationTurn} from '../services/ConversationLog';
+import {RealtimeError} from '../services/RealtimeError';
+import {createLogger} from '../services/Logger';
+
+const log = createLogger('realtime');
+
+export interface RealtimeCall {
+  lifecycle: CallLifecycleState;
+  isConnecting: boolean;
+  isInProgress: boolean; // connected or reconnecting
+  isBotSpeaking: boolean;
+  conversation: ConversationTurn[];
+  service: OpenAIRealtimeService | null; // the current or last call
+  error: RealtimeError | null; // latest error until dismissed or a new call starts
+  dismissError: () => void;
+  // Prepares the next call (key, peer connection, optionally the mic) so
+  // startCall() with the same dependencies is fast
+  warmUp: (
+    config: RealtimeConfig,
+    dependencies?: RealtimeServiceDependencies,
+    options?: {microphone?: boolean},
+  ) => Promise<void>;
+  startCall: (
+    config: RealtimeConfig,
+    dependencies?: RealtimeServiceDependencies,
+  ) => Promise<OpenAIRealtimeService>;
+  endCall: () => Promise<void>;
+}
+
+// Runs one OpenAIRealtimeService call at a time and mirrors its lifecycle into
+// React state. The callbacks are read when a call starts.
+export const useRealtimeCall = (
+  callbacks: RealtimeCallbacks = {},
+): RealtimeCall => {
+  const [lifecycle, setLifecycle] = useState<CallLifecycleState>({
+    status: 'idle',
+  });
+  const [isBotSpeaking, setIsBotSpeaking] = useState(false);
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const [error, setError] = useState<RealtimeError | null>(null);
+  const [service, setService] = useState<OpenAIRealtimeService | null>(null);
+  const serviceRef = useRef<OpenAIRealtimeService | null>(null);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  // Replaces the current service with a new one; the old one is released
+  const replaceService = useCallback(
+    (config: RealtimeConfig, dependencies: RealtimeServiceDependencies) => {
+      const extra = callbacksRef.current;
+      const next = new OpenAIRealtimeService(
+        config,
+        {
+          ...extra,
+          onLifecycleChange: state => {
+            if (serviceRef.current === next) {
+              setLifecycle(state);
+            }
+            extra.onLifecycleChange?.(state);
+          },
+          onBotSpeaking: isSpeaking => {
+            if (serviceRef.current === next) {
+              setIsBotSpeaking(isSpeaking);
+            }
+            extra.onBotSpeaking?.(isSpeaking);
+          },
+          onConversationUpdated: turns => {
+            if (serviceRef.current === next) {
+              setConversation(turns);
+            }
+            extra.onConversationUpdated?.(turns);
+          },
+          onError: realtimeError => {
+            if (serviceRef.current === next) {
+              setError(realtimeError);
+            }
+            extra.onError?.(realtimeError);
+          },
+        },
+        dependencies,
+      );
+      const previous = serviceRef.current;
+      serviceRef.current = next;
+      setService(next);
+      setLifecycle(next.getLifecycle());
+      previous?.endCall().catch(endError => {
+        log.warn('Error releasing the previous call:', endError);
+      });
+      return next;
+    },
+    [],
+  );
+
+  // A warmed-up service that has not been used yet can take the new settings
+  const reusableService = useCallback((config: RealtimeConfig) => {
+    const current = serviceRef.current;
+    return current?.getLifecycle().status === 'idle' &&
+      current.setConfig(config)
+      ? current
+      : null;
+  }, []);
+
+  const warmUp = useCallback(
+    async (
+      config: RealtimeConfig,
+      dependencies: RealtimeServiceDependencies = {},
+      options: {microphone?: boolean} = {},
+    ) => {
+      const next =
+        reusableService(config) || replaceService(config, dependencies);
+      await next.warmUp(options);
+    },
+    [reusableService, replaceService],
+  );
+
+  const startCall = useCallback(
+    async (
+      config: RealtimeConfig,
+      dependencies: RealtimeServiceDependencies = {},
+    ) => {
+      // Only one call at a time; a previous one is released first
+      const next =
+        reusableService(config) || replaceService(config, dependencies);
+      setIsBotSpeaking(false);
+      setConversation([]);
+      setError(null);
+
+      await next.startCall();
+      return next;
+    },
+    [reusableService, replaceService],
+  );
+
+  const endCall = useCallback(async () => {
+    await serviceRef.current?.endCall();
+  }, []);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  // Hang up when the screen using the call goes away
+  useEffect(() => {
+    return () => {
+      serviceRef.current?.endCall().catch(endError => {
+        log.warn('Error ending call on unmount:', endError);
+      });
+    };
+  }, []);
+
+  return {
+    lifecycle,
+    isConnecting: isCallConnecting(lifecycle),
+    isInProgress: isCallInProgress(lifecycle),
+    isBotSpeaking,
+    conversation,
+    service,
+    error,
+    dismissError,
+    warmUp,
+    startCall,
+    endCall,
+  };
+};
@@ -1,4 +1,12 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {ReplyModality, TurnMode} from './OpenAIRealtimeService';
+import {createLogger} from './Logger';
+import {formatMemories, RelevantMemories} from './MemoryService';
+import type {TransportKind} from './transports/RealtimeTransport';
+
+const log = createLogger('settings');
+
+export type CaptionSize = 'small' | 'medium' | 'large';
 
 export interface AIPersonality {
   id: string;
@@ -12,6 +20,18 @@ export interface AIPersonality {
 export interface AIConfig {
   personality: AIPersonality;
   autoStart: boolean;
+  turnMode: TurnMode;
+  replyModality: ReplyModality;
+  useMicrophone: boolean;
+  showSignalStrength: boolean;
+  sessionBudgetUsd: number | null; // estimated spend per call, null for no limit
+  dailyBudgetUsd: number | null;
+  idleTimeoutMinutes: number | null; // null keeps the call open while the user is quiet
+  maxCallMinutes: number | null;
+  showCaptions: boolean; // live captions of both sides over the avatar
+  captionSize: CaptionSize;
+  useMemory: boolean; // remember facts and summaries across calls
+  connection: TransportKind; // 'websocket' for networks that block WebRTC
 }
 
 export class AIConfigService {
@@ -72,6 +92,18 @@ CONVERSATION STYLE:
   static readonly DEFAULT_CONFIG: AIConfig = {
     personality: AIConfigService.PERSONALITIES[0], // ChatterBuddy
     autoStart: true,
+    turnMode: 'server-vad',
+    replyModality: 'audio',
+    useMicrophone: true,
+    showSignalStrength: true,
+    sessionBudgetUsd: null,
+    dailyBudgetUsd: null,
+    idleTimeoutMinutes: null,
+    maxCallMinutes: null,
+    showCaptions: true,
+    captionSize: 'medium',
+    useMemory: true,
+    connection: 'webrtc',
   };
 
   // Get current configuration
@@ -92,7 +124,7 @@ CONVERSATION STYLE:
       }
       return this.DEFAULT_CONFIG;
     } catch (error) {
-      console.error('Error loading AI config:', error);
+      log.error('Error loading AI config:', error);
       return this.DEFAULT_CONFIG;
     }
   }
@@ -104,7 +136,7 @@ CONVERSATION STYLE:
       const newConfig = {...currentConfig, ...config};
       await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(newConfig));
     } catch (error) {
-      console.error('Error saving AI config:', error);
+      log.error('Error saving AI config:', error);
     }
   }
 
@@ -118,9 +150,17 @@ CONVERSATION STYLE:
     return this.PERSONALITIES;
   }
 
-  // Generate system prompt based on configuration
-  static generateSystemPrompt(config: AIConfig): string {
-    return config.personality.systemPrompt;
+  // Generate system prompt based on configuration, with what ChatterBuddy
+  // remembers from earlier calls when memory is on
+  static generateSystemPrompt(
+    config: AIConfig,
+    memories?: RelevantMemories,
+  ): string {
+    const remembered =
+      config.useMemory && memories ? formatMemories(memories) : '';
+    return remembered
+      ? `${config.personality.systemPrompt}\n\n${remembered}`
+      : config.personality.systemPrompt;
   }
 
   // Get greeting message
@@ -0,0 +1,240 @@
+import * as Keychain from 'react-native-keychain';
+import {
+  AuthTokensResponse,
+  AuthUser,
+  BackendAuth,
+  BackendClient,
+  BackendError,
+  getBackendProfile,
+} from './BackendClient';
+import {createLogger} from './Logger';
+
+const log = createLogger('auth');
+
+// Refresh a little before the access token runs out, so a request doesn't
+// leave with a token that expires on the way
+const ACCESS_TOKEN_MARGIN_MS = 30000;
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms
+  user: AuthUser;
+}
+
+export type AuthState =
+  | {status: 'restoring'} // reading the stored session on launch
+  | {status: 'signed-out'}
+  | {status: 'signed-in'; user: AuthUser};
+
+export interface AuthSessionStore {
+  load(): Promise<AuthSession | null>;
+  save(session: AuthSession): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Keeps the session in the iOS Keychain / Android Keystore, never in AsyncStorage
+export class SecureSessionStore implements AuthSessionStore {
+  private static readonly SERVICE = 'chatterbuddy.auth';
+
+  async load(): Promise<AuthSession | null> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: SecureSessionStore.SERVICE,
+      });
+      return credentials ? JSON.parse(credentials.password) : null;
+    } catch (error) {
+      log.error('Error loading the auth session:', error);
+      return null;
+    }
+  }
+
+  async save(session: AuthSession): Promise<void> {
+    await Keychain.setGenericPassword(
+      session.user.email,
+      JSON.stringify(session),
+      {
+        service: SecureSessionStore.SERVICE,
+        accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+      },
+    );
+  }
+
+  async clear(): Promise<void> {
+    await Keychain.resetGenericPassword({service: SecureSessionStore.SERVICE});
+  }
+}
+
+export interface AuthServiceOptions {
+  backend?: Pick<
+    BackendClient,
+    | 'requestSignInCode'
+    | 'verifySignInCode'
+    | 'refreshSession'
+    | 'revokeSession'
+  >;
+  store?: AuthSessionStore;
+}
+
+const toSession = (tokens: AuthTokensResponse): AuthSession => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+  user: tokens.user,
+});
+
+// Who is signed in, with their tokens. Sign-in is an emailed one-time code;
+// the access token is refreshed on demand and a rejected refresh token signs
+// the user out.
+export class AuthService implements BackendAuth {
+  private backend: NonNullable<AuthServiceOptions['backend']>;
+  private store: AuthSessionStore;
+  private session: AuthSession | null = null;
+  private state: AuthState = {status: 'restoring'};
+  private listeners = new Set<(state: AuthState) => void>();
+  private restorePromise: Promise<void> | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+
+  constructor(options: AuthServiceOptions = {}) {
+    this.backend = options.backend || new BackendClient();
+    this.store = options.store || new SecureSessionStore();
+  }
+
+  getState(): AuthState {
+    return this.state;
+  }
+
+  // Returns the unsubscribe function
+  subscribe(listener: (state: AuthState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Loads the stored session once per launch
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.store.load().then(session => {
+        // A sign-in that finished while loading wins
+        if (this.state.status === 'restoring') {
+          this.setSession(session);
+        }
+      });
+    }
+    return this.restorePromise;
+  }
+
+  async requestCode(email: string): Promise<void> {
+    await this.backend.requestSignInCode(email.trim().toLowerCase());
+  }
+
+  async signIn(email: string, code: string): Promise<AuthUser> {
+    const tokens = await this.backend.verifySignInCode(
+      email.trim().toLowerCase(),
+      code.trim(),
+    );
+    const session = toSession(tokens);
+    await this.store.save(session);
+    this.setSession(session);
+    log.info(`🔐 Signed in as ${session.user.email}`);
+    return session.user;
+  }
+
+  async signOut(): Promise<void> {
+    const session = this.session;
+    await this.endSession();
+    if (session) {
+      // Best effort; the tokens are gone from this device either way
+      this.backend.revokeSession(session.refreshToken).catch(error => {
+        log.warn('Could not revoke the session:', error);
+      });
+    }
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    await this.restore();
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt - ACCESS_TOKEN_MARGIN_MS > Date.now()) {
+      return session.accessToken;
+    }
+    return this.refreshAccessToken();
+  }
+
+  // One refresh at a time; concurrent callers share it. Network failures are
+  // thrown and keep the session, a rejected refresh token signs out.
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async refresh(): Promise<string | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+    try {
+      const tokens = await this.backend.refreshSession(session.refreshToken);
+      if (this.session !== session) {
+        return null; // signed out meanwhile
+      }
+      const next = toSession(tokens);
+      await this.store.save(next);
+      this.setSession(next);
+      log.info('🔐 Refreshed the access token');
+      return next.accessToken;
+    } catch (error) {
+      const rejected =
+        error instanceof BackendError &&
+        error.kind === 'http' &&
+        !error.retryable &&
+        error.status !== 429;
+      if (!rejected) {
+        throw error;
+      }
+      log.warn('Refresh token rejected, signing out:', error.message);
+      if (this.session === session) {
+        await this.endSession();
+      }
+      return null;
+    }
+  }
+
+  private async endSession(): Promise<void> {
+    this.setSession(null);
+    try {
+      await this.store.clear();
+    } catch (error) {
+      log.error('Error clearing the auth session:', error);
+    }
+  }
+
+  private setSession(session: AuthSession | null): void {
+    const previous = this.state;
+    this.session = session;
+    this.state = session
+      ? {status: 'signed-in', user: session.user}
+      : {status: 'signed-out'};
+    const changed =
+      previous.status !== this.state.status ||
+      (previous.status === 'signed-in' &&
+        this.state.status === 'signed-in' &&
+        previous.user.id !== this.state.user.id);
+    if (changed) {
+      this.listeners.forEach(listener => listener(this.state));
+    }
+  }
+}
+
+// The app's sign-in state, and a backend client that sends the user's token
+export const authService = new AuthService();
+export const userBackend = new BackendClient(getBackendProfile(), {
+  auth: authService,
+});
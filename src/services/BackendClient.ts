@@ -0,0 +1,374 @@
+import axios from 'axios';
+import Config from 'react-native-config';
+import {createLogger} from './Logger';
+
+const log = createLogger('backend');
+
+export type AppEnvironment = 'development' | 'staging' | 'production';
+
+// Where the ChatterBuddy backend lives and how patient to be with it. The
+// environment and URL come from the .env file picked at build time (ENVFILE),
+// see .env.example.
+export interface BackendProfile {
+  environment: AppEnvironment;
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number; // extra attempts after the first one
+  retryBaseDelayMs: number; // doubled on every retry
+  allowInsecureHttp: boolean; // plain http, for a stand-in server on the LAN
+}
+
+type ProfileDefaults = Omit<BackendProfile, 'environment'>;
+
+const PROFILE_DEFAULTS: Record<AppEnvironment, ProfileDefaults> = {
+  development: {
+    baseUrl: 'http://localhost:8787', // npm run mock-backend
+    timeoutMs: 15000,
+    maxRetries: 1,
+    retryBaseDelayMs: 500,
+    allowInsecureHttp: true,
+  },
+  staging: {
+    baseUrl: '',
+    timeoutMs: 10000,
+    maxRetries: 3,
+    retryBaseDelayMs: 500,
+    allowInsecureHttp: false,
+  },
+  production: {
+    baseUrl: '',
+    timeoutMs: 10000,
+    maxRetries: 3,
+    retryBaseDelayMs: 500,
+    allowInsecureHttp: false,
+  },
+};
+
+const isAppEnvironment = (value: unknown): value is AppEnvironment =>
+  value === 'development' || value === 'staging' || value === 'production';
+
+// Builds the profile from the build's environment variables. Debug builds
+// default to development, release builds to production.
+export const getBackendProfile = (
+  env: Record<string, string | undefined> = Config,
+): BackendProfile => {
+  const environment = isAppEnvironment(env.APP_ENV)
+    ? env.APP_ENV
+    : __DEV__
+    ? 'development'
+    : 'production';
+  const defaults = PROFILE_DEFAULTS[environment];
+  return {
+    ...defaults,
+    environment,
+    baseUrl: (env.BACKEND_URL || defaults.baseUrl).replace(/\/+$/, ''),
+  };
+};
+
+// network: no response; timeout: no response in time; http: an error status;
+// invalid-response: a 2xx with a body we don't understand; config: the profile
+// can't be used (no URL, or plain http outside development); unauthenticated:
+// nobody is signed in, or the session could not be refreshed
+export type BackendErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http'
+  | 'invalid-response'
+  | 'config'
+  | 'unauthenticated';
+
+export class BackendError extends Error {
+  readonly kind: BackendErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(kind: BackendErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'BackendError';
+    this.kind = kind;
+    this.status = status;
+    this.retryable =
+      kind === 'network' ||
+      kind === 'timeout' ||
+      (kind === 'http' && status !== undefined && status >= 500);
+  }
+}
+
+// The part of axios the client uses
+export interface BackendHttpClient {
+  post(
+    url: string,
+    body: unknown,
+    config: {headers: Record<string, string>; timeout: number},
+  ): Promise<{status: number; data: unknown}>;
+}
+
+// The signed-in user's tokens, see AuthService
+export interface BackendAuth {
+  // A valid access token, refreshed first when it is about to expire; null
+  // when signed out
+  getAccessToken(): Promise<string | null>;
+  // Called when the backend rejects the access token anyway; resolves the new
+  // token, or null when the session is over
+  refreshAccessToken(): Promise<string | null>;
+}
+
+export interface BackendClientOptions {
+  http?: BackendHttpClient;
+  // Without it only the unauthenticated endpoints (sign-in) can be used
+  auth?: BackendAuth;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface EphemeralKeyRequest {
+  model: string;
+  voice: string;
+}
+
+export interface EphemeralKeyResponse {
+  ephemeralKey: string;
+  expiresAt?: number; // seconds, like the Realtime API's client_secret.expires_at
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export interface AuthTokensResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+  user: AuthUser;
+}
+
+// Checks a response body and returns the typed value, or null when the shape
+// is wrong
+export type ResponseValidator<T> = (data: unknown) => T | null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+// {success: true}
+const parseSuccess: ResponseValidator<true> = data =>
+  isRecord(data) && data.success === true ? true : null;
+
+// {success: true, data: {accessToken, refreshToken, expiresIn, user: {id, email}}}
+const parseAuthTokens: ResponseValidator<AuthTokensResponse> = data => {
+  const payload = isRecord(data) ? data.data : undefined;
+  if (!isRecord(payload) || !isRecord(payload.user)) {
+    return null;
+  }
+  const {accessToken, refreshToken, expiresIn} = payload;
+  const {id, email} = payload.user;
+  if (
+    !isNonEmptyString(accessToken) ||
+    !isNonEmptyString(refreshToken) ||
+    typeof expiresIn !== 'number' ||
+    !isNonEmptyString(id) ||
+    !isNonEmptyString(email)
+  ) {
+    return null;
+  }
+  return {accessToken, refreshToken, expiresIn, user: {id, email}};
+};
+
+// {success: true, data: {ephemeralKey: 'ek_...', expiresAt?: 1700000000}}
+const parseEphemeralKey: ResponseValidator<EphemeralKeyResponse> = data => {
+  const payload = isRecord(data) ? data.data : undefined;
+  if (!isRecord(payload)) {
+    return null;
+  }
+  const {ephemeralKey, expiresAt} = payload;
+  if (!isNonEmptyString(ephemeralKey)) {
+    return null;
+  }
+  if (expiresAt !== undefined && typeof expiresAt !== 'number') {
+    return null;
+  }
+  return {ephemeralKey, expiresAt};
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Talks to the ChatterBuddy backend: HTTPS only outside development, a timeout
+// on every request, exponential backoff on 5xx and network errors, and the
+// signed-in user's access token on everything but the sign-in endpoints
+export class BackendClient {
+  private profile: BackendProfile;
+  private http: BackendHttpClient;
+  private auth?: BackendAuth;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    profile: BackendProfile = getBackendProfile(),
+    options: BackendClientOptions = {},
+  ) {
+    this.profile = profile;
+    this.http = options.http || axios;
+    this.auth = options.auth;
+    this.sleep = options.sleep || defaultSleep;
+  }
+
+  getProfile(): BackendProfile {
+    return this.profile;
+  }
+
+  async getEphemeralKey(
+    request: EphemeralKeyRequest,
+  ): Promise<EphemeralKeyResponse> {
+    return this.post('/api/openai/ephemeral-key', request, parseEphemeralKey);
+  }
+
+  // Emails a one-time sign-in code
+  async requestSignInCode(email: string): Promise<void> {
+    await this.post('/api/auth/code', {email}, parseSuccess, {
+      authenticated: false,
+    });
+  }
+
+  async verifySignInCode(
+    email: string,
+    code: string,
+  ): Promise<AuthTokensResponse> {
+    return this.post('/api/auth/verify', {email, code}, parseAuthTokens, {
+      authenticated: false,
+    });
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthTokensResponse> {
+    return this.post('/api/auth/refresh', {refreshToken}, parseAuthTokens, {
+      authenticated: false,
+    });
+  }
+
+  // Revokes the refresh token on the server
+  async revokeSession(refreshToken: string): Promise<void> {
+    await this.post('/api/auth/sign-out', {refreshToken}, parseSuccess, {
+      authenticated: false,
+    });
+  }
+
+  // POSTs JSON to the backend and validates the answer, retrying what's worth
+  // retrying. A rejected access token is refreshed and the request sent once more.
+  async post<T>(
+    path: string,
+    body: unknown,
+    validate: ResponseValidator<T>,
+    {authenticated = true}: {authenticated?: boolean} = {},
+  ): Promise<T> {
+    const url = this.resolveUrl(path);
+    let token = authenticated ? await this.getAccessToken() : null;
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.postOnce(url, body, validate, token);
+      } catch (error) {
+        const backendError = this.toBackendError(error);
+        if (
+          authenticated &&
+          backendError.status === 401 &&
+          !refreshed &&
+          this.auth
+        ) {
+          refreshed = true;
+          token = await this.auth.refreshAccessToken();
+          if (!token) {
+            throw new BackendError('unauthenticated', 'Session expired', 401);
+          }
+          attempt--; // the retry after a refresh is free
+          continue;
+        }
+        if (!backendError.retryable || attempt >= this.profile.maxRetries) {
+          throw backendError;
+        }
+        const delayMs = this.profile.retryBaseDelayMs * 2 ** attempt;
+        log.warn(
+          `🔁 ${path} failed (${backendError.message}), retrying in ${delayMs}ms`,
+        );
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const token = await this.auth?.getAccessToken();
+    if (!token) {
+      throw new BackendError('unauthenticated', 'Not signed in');
+    }
+    return token;
+  }
+
+  private async postOnce<T>(
+    url: string,
+    body: unknown,
+    validate: ResponseValidator<T>,
+    token: string | null,
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const response = await this.http.post(url, body, {
+      headers,
+      timeout: this.profile.timeoutMs,
+    });
+    const value = validate(response.data);
+    if (value === null) {
+      throw new BackendError(
+        'invalid-response',
+        `Unexpected response from ${url}`,
+        response.status,
+      );
+    }
+    return value;
+  }
+
+  private resolveUrl(path: string): string {
+    const {baseUrl, environment, allowInsecureHttp} = this.profile;
+    if (!baseUrl) {
+      throw new BackendError(
+        'config',
+        `No BACKEND_URL configured for ${environment}`,
+      );
+    }
+    if (!baseUrl.startsWith('https://') && !allowInsecureHttp) {
+      throw new BackendError(
+        'config',
+        `BACKEND_URL must use https in ${environment}`,
+      );
+    }
+    return `${baseUrl}${path}`;
+  }
+
+  private toBackendError(error: unknown): BackendError {
+    if (error instanceof BackendError) {
+      return error;
+    }
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        return new BackendError(
+          'http',
+          `Request failed with status ${error.response.status}`,
+          error.response.status,
+        );
+      }
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new BackendError(
+          'timeout',
+          `No response within ${this.profile.timeoutMs}ms`,
+        );
+      }
+      return new BackendError('network', error.message);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new BackendError('network', message);
+  }
+}
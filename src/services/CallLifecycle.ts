@@ -0,0 +1,83 @@
+import {createLogger} from './Logger';
+
+const log = createLogger('realtime');
+
+export type CallLifecycleState =
+  | {status: 'idle'}
+  | {status: 'requesting-permission'}
+  | {status: 'fetching-key'}
+  | {status: 'negotiating'}
+  | {status: 'connected'}
+  | {status: 'reconnecting'}
+  | {status: 'ending'}
+  | {status: 'ended'}
+  | {status: 'failed'; reason: string};
+
+export type CallStatus = CallLifecycleState['status'];
+
+// Every other move is a bug and is ignored, e.g. a late 'connected' from the
+// transport after the user already hung up
+const ALLOWED_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  idle: ['requesting-permission', 'fetching-key', 'ending'],
+  'requesting-permission': ['fetching-key', 'ending', 'failed'],
+  'fetching-key': ['negotiating', 'ending', 'failed'],
+  negotiating: ['connected', 'reconnecting', 'ending', 'failed'],
+  connected: ['reconnecting', 'ending', 'failed'],
+  reconnecting: ['connected', 'ending', 'failed'],
+  ending: ['ended'],
+  ended: ['requesting-permission', 'fetching-key'],
+  failed: ['requesting-permission', 'fetching-key', 'ending'],
+};
+
+// Setting up the call, before ChatterBuddy can hear the user
+export const isCallConnecting = (state: CallLifecycleState): boolean =>
+  state.status === 'requesting-permission' ||
+  state.status === 'fetching-key' ||
+  state.status === 'negotiating';
+
+// A call the user is in, even while the connection is being restored
+export const isCallInProgress = (state: CallLifecycleState): boolean =>
+  state.status === 'connected' || state.status === 'reconnecting';
+
+// A new call can be started from here
+export const canStartCall = (state: CallLifecycleState): boolean =>
+  state.status === 'idle' ||
+  state.status === 'ended' ||
+  state.status === 'failed';
+
+// Owns the state of one OpenAIRealtimeService call and enforces the allowed
+// transitions
+export class CallLifecycle {
+  private state: CallLifecycleState = {status: 'idle'};
+  private onChange: (state: CallLifecycleState) => void;
+
+  constructor(onChange: (state: CallLifecycleState) => void) {
+    this.onChange = onChange;
+  }
+
+  get(): CallLifecycleState {
+    return this.state;
+  }
+
+  is(...statuses: CallStatus[]): boolean {
+    return statuses.includes(this.state.status);
+  }
+
+  // Returns false, and keeps the current state, when the move is not allowed.
+  // Moving to the current state is a no-op that counts as success.
+  transition(next: CallLifecycleState): boolean {
+    if (next.status === this.state.status) {
+      return true;
+    }
+    if (!ALLOWED_TRANSITIONS[this.state.status].includes(next.status)) {
+      log.warn(
+        `Ignoring call transition ${this.state.status} -> ${next.status}`,
+      );
+      return false;
+    }
+    log.info(`📞 Call ${this.state.status} -> ${next.status}`);
+    this.state = next;
+    this.onChange(next);
+    return true;
+  }
+}
@@ -0,0 +1,228 @@
+import type {TransportKind} from './transports/RealtimeTransport';
+import type {UsageTotals} from './TokenUsage';
+
+// One getStats() poll, reduced to the numbers that explain a sluggish call.
+// Values are undefined when the report did not include them.
+export interface CallQualitySample {
+  timestamp: number;
+  roundTripTimeMs?: number;
+  jitterMs?: number;
+  packetLossPercent?: number; // inbound audio, since the previous sample
+  inboundBitrateKbps?: number;
+  outboundBitrateKbps?: number;
+}
+
+export type SignalQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+// Time from the end of the user's speech to ChatterBuddy's first audio
+export interface TurnLatency {
+  responseId: string;
+  latencyMs: number;
+  at: number;
+}
+
+export interface CallSummary {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  transport: TransportKind;
+  reconnects: number;
+  sampleCount: number;
+  averageRoundTripTimeMs?: number;
+  averageJitterMs?: number;
+  packetLossPercent?: number; // over the whole call
+  averageInboundBitrateKbps?: number;
+  averageOutboundBitrateKbps?: number;
+  turnLatenciesMs: number[];
+  averageTurnLatencyMs?: number;
+  timeToFirstAudioMs?: number; // from starting the call to ChatterBuddy's first words
+  usage?: UsageTotals; // tokens and estimated cost of the call
+}
+
+// Map-like RTCStatsReport as returned by react-native-webrtc
+export interface StatsReportLike {
+  forEach(callback: (stat: any) => void): void;
+}
+
+interface ByteCounters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+const round = (value: number | undefined, digits = 1): number | undefined =>
+  value === undefined ? undefined : Number(value.toFixed(digits));
+
+// Thresholds roughly follow what users notice in a voice call
+export const getSignalQuality = (sample?: CallQualitySample): SignalQuality => {
+  if (!sample || sample.roundTripTimeMs === undefined) {
+    return 'unknown';
+  }
+  const rtt = sample.roundTripTimeMs;
+  const jitter = sample.jitterMs || 0;
+  const loss = sample.packetLossPercent || 0;
+  if (rtt > 500 || jitter > 50 || loss > 5) {
+    return 'poor';
+  }
+  if (rtt > 250 || jitter > 30 || loss > 1) {
+    return 'fair';
+  }
+  return 'good';
+};
+
+// Collects quality samples and turn latencies for one call and turns them into
+// a CallSummary when the call ends
+export class CallMetrics {
+  private samples: CallQualitySample[] = [];
+  private turnLatencies: TurnLatency[] = [];
+  private previous: ByteCounters | null = null;
+  private first: ByteCounters | null = null;
+  private reconnects: number = 0;
+  private firstAudioAt: number | null = null;
+  private startedAt: number;
+  private transport: TransportKind;
+
+  constructor(transport: TransportKind, startedAt: number = Date.now()) {
+    this.transport = transport;
+    this.startedAt = startedAt;
+  }
+
+  addStatsReport(
+    report: StatsReportLike,
+    timestamp: number = Date.now(),
+  ): CallQualitySample {
+    const sample: CallQualitySample = {timestamp};
+    const counters: ByteCounters = {
+      timestamp,
+      bytesReceived: 0,
+      bytesSent: 0,
+      packetsReceived: 0,
+      packetsLost: 0,
+    };
+
+    report.forEach(stat => {
+      const isAudio = stat.kind === 'audio' || stat.mediaType === 'audio';
+      if (
+        stat.type === 'candidate-pair' &&
+        stat.state === 'succeeded' &&
+        stat.currentRoundTripTime !== undefined
+      ) {
+        sample.roundTripTimeMs = stat.currentRoundTripTime * 1000;
+      } else if (
+        stat.type === 'remote-inbound-rtp' &&
+        sample.roundTripTimeMs === undefined &&
+        stat.roundTripTime !== undefined
+      ) {
+        sample.roundTripTimeMs = stat.roundTripTime * 1000;
+      } else if (stat.type === 'inbound-rtp' && isAudio) {
+        if (stat.jitter !== undefined) {
+          sample.jitterMs = stat.jitter * 1000;
+        }
+        counters.bytesReceived += stat.bytesReceived || 0;
+        counters.packetsReceived += stat.packetsReceived || 0;
+        counters.packetsLost += Math.max(0, stat.packetsLost || 0);
+      } else if (stat.type === 'outbound-rtp' && isAudio) {
+        counters.bytesSent += stat.bytesSent || 0;
+      }
+    });
+
+    // Bitrate and loss need two polls; the first one only sets the baseline
+    if (this.previous) {
+      const seconds = (timestamp - this.previous.timestamp) / 1000;
+      if (seconds > 0) {
+        sample.inboundBitrateKbps =
+          ((counters.bytesReceived - this.previous.bytesReceived) * 8) /
+          seconds /
+          1000;
+        sample.outboundBitrateKbps =
+          ((counters.bytesSent - this.previous.bytesSent) * 8) / seconds / 1000;
+      }
+      const lost = counters.packetsLost - this.previous.packetsLost;
+      const received = counters.packetsReceived - this.previous.packetsReceived;
+      if (lost + received > 0) {
+        sample.packetLossPercent = (lost / (lost + received)) * 100;
+      }
+    }
+    this.previous = counters;
+    this.first = this.first || counters;
+
+    const rounded: CallQualitySample = {
+      timestamp,
+      roundTripTimeMs: round(sample.roundTripTimeMs, 0),
+      jitterMs: round(sample.jitterMs),
+      packetLossPercent: round(sample.packetLossPercent),
+      inboundBitrateKbps: round(sample.inboundBitrateKbps),
+      outboundBitrateKbps: round(sample.outboundBitrateKbps),
+    };
+    this.samples.push(rounded);
+    return rounded;
+  }
+
+  recordTurnLatency(latency: TurnLatency): void {
+    this.turnLatencies.push(latency);
+  }
+
+  // Returns the time to first audio in ms, or null if it was already recorded
+  recordFirstAudio(at: number = Date.now()): number | null {
+    if (this.firstAudioAt !== null) {
+      return null;
+    }
+    this.firstAudioAt = at;
+    return at - this.startedAt;
+  }
+
+  recordReconnect(): void {
+    this.reconnects += 1;
+  }
+
+  getLatestSample(): CallQualitySample | undefined {
+    return this.samples[this.samples.length - 1];
+  }
+
+  getSummary(endedAt: number = Date.now()): CallSummary {
+    const values = (key: keyof CallQualitySample) =>
+      this.samples
+        .map(sample => sample[key])
+        .filter((value): value is number => value !== undefined);
+
+    let packetLossPercent: number | undefined;
+    if (this.first && this.previous) {
+      const lost = this.previous.packetsLost - this.first.packetsLost;
+      const received =
+        this.previous.packetsReceived - this.first.packetsReceived;
+      if (lost + received > 0) {
+        packetLossPercent = round((lost / (lost + received)) * 100);
+      }
+    }
+
+    const turnLatenciesMs = this.turnLatencies.map(turn => turn.latencyMs);
+    return {
+      id: `call_${this.startedAt}`,
+      startedAt: this.startedAt,
+      endedAt,
+      durationMs: endedAt - this.startedAt,
+      transport: this.transport,
+      reconnects: this.reconnects,
+      sampleCount: this.samples.length,
+      averageRoundTripTimeMs: round(average(values('roundTripTimeMs')), 0),
+      averageJitterMs: round(average(values('jitterMs'))),
+      packetLossPercent,
+      averageInboundBitrateKbps: round(average(values('inboundBitrateKbps'))),
+      averageOutboundBitrateKbps: round(average(values('outboundBitrateKbps'))),
+      turnLatenciesMs,
+      averageTurnLatencyMs: round(average(turnLatenciesMs), 0),
+      timeToFirstAudioMs:
+        this.firstAudioAt === null
+          ? undefined
+          : this.firstAudioAt - this.startedAt,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {CallSummary} from './CallMetrics';
+import {createLogger} from './Logger';
+
+const log = createLogger('settings');
+
+export class CallSummaryService {
+  private static readonly STORAGE_KEY = 'call_summaries';
+  private static readonly MAX_SUMMARIES = 50;
+
+  // Newest first
+  static async getSummaries(): Promise<CallSummary[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Error loading call summaries:', error);
+      return [];
+    }
+  }
+
+  // Keeps the most recent MAX_SUMMARIES calls
+  static async saveSummary(summary: CallSummary): Promise<void> {
+    try {
+      const summaries = await this.getSummaries();
+      const updated = [summary, ...summaries].slice(0, this.MAX_SUMMARIES);
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      log.error('Error saving call summary:', error);
+    }
+  }
+
+  static async clearSummaries(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      log.error('Error clearing call summaries:', error);
+    }
+  }
+}
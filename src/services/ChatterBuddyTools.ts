@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AIConfigService} from './AIConfigService';
+import {RealtimeTool} from './OpenAIRealtimeService';
+import {createLogger} from './Logger';
+
+const log = createLogger('realtime');
+
+const NOTES_STORAGE_KEY = 'chatterbuddy_notes';
+const START_TALKING_STORAGE_KEY = 'startTalkingOnOpen';
+
+export interface SavedNote {
+  text: string;
+  createdAt: string;
+}
+
+// Notes the user asked ChatterBuddy to remember, oldest first
+export const getSavedNotes = async (): Promise<SavedNote[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(NOTES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('Error loading notes:', error);
+    return [];
+  }
+};
+
+const getCurrentTime: RealtimeTool = {
+  name: 'get_current_time',
+  description:
+    "Get the current date and time in the user's local time zone. Use this whenever the user asks about the time, date or day of the week.",
+  parameters: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  },
+  handler: async () => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+const saveNote: RealtimeTool = {
+  name: 'save_note',
+  description:
+    'Save a short note for the user, for example a reminder or something they want to remember later.',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: {
+        type: 'string',
+        description: 'The note to save, written as a short sentence.',
+      },
+    },
+    required: ['text'],
+    additionalProperties: false,
+  },
+  handler: async (args: {text?: string}) => {
+    const text = typeof args.text === 'string' ? args.text.trim() : '';
+    if (!text) {
+      return {saved: false, reason: 'The note was empty'};
+    }
+    const notes = await getSavedNotes();
+    notes.push({text, createdAt: new Date().toISOString()});
+    await AsyncStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+    return {saved: true, totalNotes: notes.length};
+  },
+};
+
+const getUserPreferences: RealtimeTool = {
+  name: 'get_user_preferences',
+  description:
+    "Look up the user's saved app preferences and their saved notes.",
+  parameters: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  },
+  handler: async () => {
+    const [config, startTalking, notes] = await Promise.all([
+      AIConfigService.getConfig(),
+      AsyncStorage.getItem(START_TALKING_STORAGE_KEY),
+      getSavedNotes(),
+    ]);
+    return {
+      personality: config.personality.name,
+      voice: config.personality.voice,
+      startTalkingOnOpen: startTalking !== 'false',
+      notes: notes.map(note => note.text),
+    };
+  },
+};
+
+// Tools registered on every ChatterBuddy call
+export const CHATTERBUDDY_TOOLS: RealtimeTool[] = [
+  getCurrentTime,
+  saveNote,
+  getUserPreferences,
+];
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {ConversationRole, ConversationTurn} from './ConversationLog';
+import {createLogger} from './Logger';
+
+const log = createLogger('settings');
+
+export interface SavedTurn {
+  role: ConversationRole;
+  text: string;
+  at: number; // when the turn started
+  interrupted?: boolean;
+}
+
+export interface ConversationRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  persona: {id: string; name: string};
+  turns: SavedTurn[]; // in conversation order
+}
+
+// What the realtime service reports when a call that reached the model ends
+export interface FinishedConversation {
+  startedAt: number;
+  endedAt: number;
+  turns: ConversationTurn[];
+  summary?: string; // the answer to RealtimeConfig.summaryPrompt, if asked
+}
+
+// Only what the user saw: no hidden prompts, no turns that stayed empty
+export const toSavedTurns = (turns: ConversationTurn[]): SavedTurn[] =>
+  turns
+    .filter(turn => turn.kind !== 'prompt' && turn.text.trim())
+    .map(turn => ({
+      role: turn.role,
+      text: turn.text.trim(),
+      at: turn.startedAt,
+      interrupted: turn.interrupted,
+    }));
+
+export class ConversationHistoryService {
+  private static readonly STORAGE_KEY = 'conversation_history';
+  private static readonly MAX_CONVERSATIONS = 200;
+
+  // Newest first
+  static async getConversations(): Promise<ConversationRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Error loading conversation history:', error);
+      return [];
+    }
+  }
+
+  // Saves a finished call; calls where nothing was said are skipped
+  static async saveConversation(
+    conversation: FinishedConversation,
+    persona: {id: string; name: string},
+  ): Promise<ConversationRecord | null> {
+    const turns = toSavedTurns(conversation.turns);
+    if (turns.length === 0) {
+      return null;
+    }
+    const record: ConversationRecord = {
+      id: `${conversation.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: conversation.startedAt,
+      endedAt: conversation.endedAt,
+      persona: {id: persona.id, name: persona.name},
+      turns,
+    };
+    try {
+      const conversations = await this.getConversations();
+      const updated = [record, ...conversations].slice(
+        0,
+        this.MAX_CONVERSATIONS,
+      );
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+      return record;
+    } catch (error) {
+      log.error('Error saving conversation:', error);
+      return null;
+    }
+  }
+
+  static async deleteConversation(id: string): Promise<void> {
+    try {
+      const conversations = await this.getConversations();
+      await AsyncStorage.setItem(
+        this.STORAGE_KEY,
+        JSON.stringify(conversations.filter(record => record.id !== id)),
+      );
+    } catch (error) {
+      log.error('Error deleting conversation:', error);
+    }
+  }
+
+  static async clearConversations(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      log.error('Error clearing conversation history:', error);
+    }
+  }
+}
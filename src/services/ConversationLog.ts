@@ -0,0 +1,127 @@
+export type ConversationRole = 'user' | 'assistant';
+
+// speech: transcribed microphone audio, text: typed or spoken reply text,
+// prompt: an instruction the app sent on the user's behalf (hidden from the user)
+export type ConversationTurnKind = 'speech' | 'text' | 'prompt';
+
+export interface ConversationTurn {
+  itemId: string; // conversation item id from the Realtime API
+  responseId?: string; // set for assistant turns
+  role: ConversationRole;
+  kind: ConversationTurnKind;
+  text: string;
+  isFinal: boolean; // false while deltas are still arriving
+  interrupted?: boolean; // assistant turn cut off by the user talking over it
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Ordered list of user and assistant turns for one call, keyed by item id.
+// Turns are replaced rather than mutated so React state can compare by reference.
+export class ConversationLog {
+  private turns: ConversationTurn[] = [];
+  private onChange?: (turns: ConversationTurn[]) => void;
+
+  constructor(onChange?: (turns: ConversationTurn[]) => void) {
+    this.onChange = onChange;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  getTurn(itemId: string): ConversationTurn | undefined {
+    return this.turns.find(turn => turn.itemId === itemId);
+  }
+
+  // Adds a turn for the item unless it is already tracked. The turn goes right
+  // after previousItemId when that item is known, otherwise at the end.
+  addTurn(
+    itemId: string,
+    role: ConversationRole,
+    details: {
+      kind?: ConversationTurnKind;
+      responseId?: string;
+      previousItemId?: string | null;
+      text?: string;
+      isFinal?: boolean;
+    } = {},
+  ): void {
+    if (this.getTurn(itemId)) {
+      return;
+    }
+
+    const now = Date.now();
+    const turn: ConversationTurn = {
+      itemId,
+      responseId: details.responseId,
+      role,
+      kind: details.kind || (role === 'user' ? 'speech' : 'text'),
+      text: details.text || '',
+      isFinal: details.isFinal || false,
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    const previousIndex = details.previousItemId
+      ? this.turns.findIndex(t => t.itemId === details.previousItemId)
+      : -1;
+    if (previousIndex >= 0) {
+      this.turns.splice(previousIndex + 1, 0, turn);
+    } else {
+      this.turns.push(turn);
+    }
+    this.notify();
+  }
+
+  appendText(
+    itemId: string,
+    role: ConversationRole,
+    delta: string,
+    responseId?: string,
+  ): void {
+    if (!this.getTurn(itemId)) {
+      this.addTurn(itemId, role, {responseId});
+    }
+    this.updateTurn(itemId, turn => ({
+      ...turn,
+      text: turn.text + delta,
+      responseId: turn.responseId || responseId,
+    }));
+  }
+
+  // Marks the turn final, replacing the accumulated deltas with the full text if given
+  finalize(itemId: string, text?: string): void {
+    this.updateTurn(itemId, turn => ({
+      ...turn,
+      text: text !== undefined ? text : turn.text,
+      isFinal: true,
+    }));
+  }
+
+  // Flags an assistant turn the user talked over; later deltas may still fill in text
+  markInterrupted(itemId: string): void {
+    this.updateTurn(itemId, turn => ({...turn, interrupted: true}));
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.notify();
+  }
+
+  private updateTurn(
+    itemId: string,
+    update: (turn: ConversationTurn) => ConversationTurn,
+  ): void {
+    const index = this.turns.findIndex(turn => turn.itemId === itemId);
+    if (index < 0) {
+      return;
+    }
+    this.turns[index] = {...update(this.turns[index]), updatedAt: Date.now()};
+    this.notify();
+  }
+
+  private notify(): void {
+    this.onChange?.(this.getTurns());
+  }
+}
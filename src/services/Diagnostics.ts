@@ -0,0 +1,189 @@
+import type {AnimationClip, Material, Mesh, Object3D} from 'three';
+import type {CallLifecycleState} from './CallLifecycle';
+import type {CallQualitySample} from './CallMetrics';
+import type {TransportKind} from './transports/RealtimeTransport';
+import {getBackendProfile} from './BackendClient';
+import {logger, redact} from './Logger';
+
+const MAX_EVENTS = 300;
+const MAX_STATS = 30;
+
+// Sent or received many times a second; a run of them is kept as one record
+const STREAMING_EVENTS = new Set([
+  'input_audio_buffer.append',
+  'response.audio.delta',
+  'response.audio_transcript.delta',
+  'response.text.delta',
+  'conversation.item.input_audio_transcription.delta',
+]);
+
+export interface RealtimeEventRecord {
+  id: number;
+  timestamp: number;
+  direction: 'sent' | 'received';
+  type: string;
+  payload: unknown; // redacted, long strings cut; the first of a run
+  count: number; // events coalesced into this record
+  lastTimestamp: number;
+}
+
+export interface CallSettingsInfo {
+  transport: TransportKind;
+  audioEndDelayStrategy: string;
+  model: string;
+  voice: string;
+}
+
+export interface SceneNode {
+  name: string;
+  type: string;
+  visible: boolean;
+  depth: number;
+  material?: string; // material type, meshes only
+}
+
+export interface SceneInfo {
+  nodes: SceneNode[];
+  animationClips: {name: string; durationS: number}[];
+}
+
+export interface DiagnosticsSnapshot {
+  lifecycle: CallLifecycleState;
+  callSettings: CallSettingsInfo | null;
+  stats: CallQualitySample[];
+  events: RealtimeEventRecord[]; // oldest first
+  scene: SceneInfo | null;
+}
+
+const materialName = (material: Material | Material[]): string =>
+  Array.isArray(material)
+    ? material.map(item => item.type).join(', ')
+    : material.type;
+
+// Flattens a loaded GLTF scene into the hierarchy ts.txt was dumped by hand from
+export const describeScene = (
+  root: Object3D,
+  animations: AnimationClip[],
+): SceneInfo => {
+  const nodes: SceneNode[] = [];
+  const visit = (object: Object3D, depth: number) => {
+    const mesh = object as Mesh;
+    nodes.push({
+      name: object.name || 'unnamed',
+      type: object.type,
+      visible: object.visible,
+      depth,
+      material: mesh.isMesh ? materialName(mesh.material) : undefined,
+    });
+    object.children.forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return {
+    nodes,
+    animationClips: animations.map(clip => ({
+      name: clip.name,
+      durationS: clip.duration,
+    })),
+  };
+};
+
+// Collects what the Diagnostics screen shows: the realtime event stream, the
+// call lifecycle and settings, recent connection stats and the avatar scene.
+// Everything kept is bounded and redacted, so recording is always on.
+export class DiagnosticsRecorder {
+  private events: RealtimeEventRecord[] = [];
+  private eventCounter: number = 0;
+  // Streaming runs still being counted, by direction, type and response
+  private openRuns = new Map<string, RealtimeEventRecord>();
+  private stats: CallQualitySample[] = [];
+  private lifecycle: CallLifecycleState = {status: 'idle'};
+  private callSettings: CallSettingsInfo | null = null;
+  private scene: SceneInfo | null = null;
+
+  // Deltas and audio appends are counted into one record per response until
+  // the next control event, so a long reply can't push the control events
+  // out of the buffer
+  recordEvent(direction: 'sent' | 'received', event: {type: string}): void {
+    const now = Date.now();
+    const streaming = STREAMING_EVENTS.has(event.type);
+    const {response_id: responseId = ''} = event as {response_id?: string};
+    const runKey = `${direction}:${event.type}:${responseId}`;
+    const run = streaming ? this.openRuns.get(runKey) : undefined;
+    if (run) {
+      run.count += 1;
+      run.lastTimestamp = now;
+      return;
+    }
+    if (!streaming) {
+      this.openRuns.clear();
+    }
+    this.eventCounter += 1;
+    const record: RealtimeEventRecord = {
+      id: this.eventCounter,
+      timestamp: now,
+      direction,
+      type: event.type,
+      payload: redact(event),
+      count: 1,
+      lastTimestamp: now,
+    };
+    this.events.push(record);
+    if (streaming) {
+      this.openRuns.set(runKey, record);
+    }
+    if (this.events.length > MAX_EVENTS) {
+      this.events.shift();
+    }
+  }
+
+  setLifecycle(state: CallLifecycleState): void {
+    this.lifecycle = state;
+  }
+
+  setCallSettings(settings: CallSettingsInfo): void {
+    this.callSettings = settings;
+  }
+
+  recordStats(sample: CallQualitySample): void {
+    this.stats.push(sample);
+    if (this.stats.length > MAX_STATS) {
+      this.stats.shift();
+    }
+  }
+
+  setScene(scene: SceneInfo): void {
+    this.scene = scene;
+  }
+
+  getSnapshot(): DiagnosticsSnapshot {
+    return {
+      lifecycle: this.lifecycle,
+      callSettings: this.callSettings,
+      stats: [...this.stats],
+      events: [...this.events],
+      scene: this.scene,
+    };
+  }
+
+  clearEvents(): void {
+    this.events = [];
+    this.openRuns.clear();
+  }
+
+  // Everything above plus the log buffer, as text to attach to a bug report
+  buildBundle(): string {
+    const {environment} = getBackendProfile();
+    const bundle = {
+      generatedAt: new Date().toISOString(),
+      environment,
+      ...this.getSnapshot(),
+    };
+    return `${JSON.stringify(
+      bundle,
+      null,
+      2,
+    )}\n\n==== Logs ====\n${logger.export()}`;
+  }
+}
+
+export const diagnostics = new DiagnosticsRecorder();
@@ -0,0 +1,241 @@
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+export type LogTag =
+  | 'realtime'
+  | 'avatar'
+  | 'audio'
+  | 'settings'
+  | 'auth'
+  | 'backend';
+
+export interface LogEntry {
+  timestamp: number;
+  level: LogLevel;
+  tag: LogTag;
+  message: string;
+  data?: unknown[]; // redacted and trimmed copies of the extra arguments
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+};
+
+type ConsoleMethod = 'log' | 'warn' | 'error';
+
+const CONSOLE_METHOD: Record<LogLevel, ConsoleMethod> = {
+  trace: 'log',
+  debug: 'log',
+  info: 'log',
+  warn: 'warn',
+  error: 'error',
+};
+
+// Values under these keys never leave the device in a log. Matched on the whole
+// key, so usage fields such as total_tokens are kept.
+const SECRET_KEY =
+  /^((access|refresh|id)_?)?token$|^client_?secret$|^authorization$|^ephemeral_?key$|^api_?key$|^password$/i;
+
+// Secrets that show up inside strings: ephemeral and API keys, bearer headers
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\bek_[A-Za-z0-9_-]{6,}/g, 'ek_[redacted]'],
+  [/\bsk-[A-Za-z0-9_-]{6,}/g, 'sk-[redacted]'],
+  [/Bearer\s+[A-Za-z0-9._~+/=-]+/gi, 'Bearer [redacted]'],
+];
+
+const MAX_STRING_LENGTH = 500; // base64 audio would otherwise fill the buffer
+const MAX_DEPTH = 4;
+
+// Cut first, so redacting a long audio chunk stays cheap
+export const redactString = (value: string): string => {
+  const trimmed =
+    value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  return SECRET_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    trimmed,
+  );
+};
+
+// A copy of value that is safe to print and keep: secrets masked, long strings
+// cut, errors flattened, deep objects summarised
+export const redact = (value: unknown, depth: number = 0): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return {name: value.name, message: redactString(value.message)};
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? '[redacted]' : redact(item, depth + 1),
+    ]),
+  );
+};
+
+type ConsoleLike = Pick<Console, ConsoleMethod>;
+
+export interface LoggerOptions {
+  threshold?: LogLevel;
+  capacity?: number; // entries kept in the ring buffer
+  writeToConsole?: boolean;
+}
+
+// Levelled, tagged logging. Entries at or above the threshold go to the console
+// (debug builds) and into a ring buffer of the latest entries, which can be
+// exported for bug reports. Everything is redacted before it is kept or shown.
+export class Logger {
+  private threshold: LogLevel;
+  private capacity: number;
+  private writeToConsole: boolean;
+  private entries: LogEntry[] = [];
+  private next: number = 0; // where the next entry goes once the buffer is full
+  private originalConsole: ConsoleLike | null = null;
+
+  constructor(options: LoggerOptions = {}) {
+    this.threshold = options.threshold || 'info';
+    this.capacity = options.capacity || 500;
+    this.writeToConsole = options.writeToConsole ?? true;
+  }
+
+  getThreshold(): LogLevel {
+    return this.threshold;
+  }
+
+  setThreshold(level: LogLevel): void {
+    this.threshold = level;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[this.threshold];
+  }
+
+  log(level: LogLevel, tag: LogTag, message: string, data: unknown[]): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const entry: LogEntry = {
+      timestamp: Date.now(),
+      level,
+      tag,
+      message: redactString(message),
+      data: data.length > 0 ? data.map(item => redact(item)) : undefined,
+    };
+    this.append(entry);
+    if (this.writeToConsole) {
+      const target = this.originalConsole || console;
+      target[CONSOLE_METHOD[level]](
+        `[${tag}] ${entry.message}`,
+        ...(entry.data || []),
+      );
+    }
+  }
+
+  // Buffered entries, oldest first
+  getEntries(): LogEntry[] {
+    return [
+      ...this.entries.slice(this.next),
+      ...this.entries.slice(0, this.next),
+    ];
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.next = 0;
+  }
+
+  // One line per entry, e.g. for sharing from the Diagnostics screen
+  export(): string {
+    return this.getEntries()
+      .map(entry => {
+        const time = new Date(entry.timestamp).toISOString();
+        const data = entry.data ? ` ${JSON.stringify(entry.data)}` : '';
+        return `${time} ${entry.level.toUpperCase()} [${entry.tag}] ${
+          entry.message
+        }${data}`;
+      })
+      .join('\n');
+  }
+
+  // Third-party libraries (expo-gl, three.js) write to the console directly.
+  // Messages matching any of the patterns are not printed but logged at trace
+  // under the tag, so the default thresholds discard them. Returns the
+  // function that puts the console back; only one routing can be installed.
+  routeConsoleNoise(tag: LogTag, patterns: string[]): () => void {
+    if (this.originalConsole) {
+      return () => {};
+    }
+    const original: ConsoleLike = {
+      log: console.log,
+      warn: console.warn,
+      error: console.error,
+    };
+    const methods: ConsoleMethod[] = ['log', 'warn', 'error'];
+    this.originalConsole = original;
+    methods.forEach(method => {
+      console[method] = (...args: unknown[]) => {
+        const message = args.map(String).join(' ');
+        if (patterns.some(pattern => message.includes(pattern))) {
+          this.log('trace', tag, message, []);
+        } else {
+          original[method].apply(console, args);
+        }
+      };
+    });
+    return () => {
+      methods.forEach(method => {
+        console[method] = original[method];
+      });
+      this.originalConsole = null;
+    };
+  }
+
+  private append(entry: LogEntry): void {
+    if (this.entries.length < this.capacity) {
+      this.entries.push(entry);
+      return;
+    }
+    this.entries[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+  }
+}
+
+export interface TaggedLogger {
+  trace(message: string, ...data: unknown[]): void;
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+// Debug builds show everything but raw payloads; release builds keep info and
+// above for export, without printing
+export const logger = new Logger({
+  threshold: __DEV__ ? 'debug' : 'info',
+  writeToConsole: __DEV__,
+});
+
+export const createLogger = (
+  tag: LogTag,
+  target: Logger = logger,
+): TaggedLogger => ({
+  trace: (message, ...data) => target.log('trace', tag, message, data),
+  debug: (message, ...data) => target.log('debug', tag, message, data),
+  info: (message, ...data) => target.log('info', tag, message, data),
+  warn: (message, ...data) => target.log('warn', tag, message, data),
+  error: (message, ...data) => target.log('error', tag, message, data),
+});
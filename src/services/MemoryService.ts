@@ -0,0 +1,332 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {createLogger} from './Logger';
+
+const log = createLogger('settings');
+
+// Something lasting about the user, e.g. "Has a dog called Biscuit"
+export interface MemoryFact {
+  id: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number; // last learned again or edited
+}
+
+// What one call was about
+export interface ConversationMemory {
+  id: string;
+  conversationId?: string; // the ConversationHistoryService record, if saved
+  summary: string;
+  createdAt: number;
+}
+
+// The memories that go into the next call's instructions
+export interface RelevantMemories {
+  facts: MemoryFact[];
+  conversations: ConversationMemory[];
+}
+
+export interface SummaryAnswer {
+  summary: string;
+  facts: string[];
+}
+
+const MAX_FACTS = 100;
+const MAX_CONVERSATIONS = 50;
+// Kept small: everything here is sent with every call
+const PROMPT_FACTS = 20;
+const PROMPT_CONVERSATIONS = 3;
+
+// Too common to say whether a memory fits the conversation
+const STOP_WORDS = new Set(
+  [
+    'the and has have had was were are with for about that this they them',
+    'their you your user called talked what when will would just not but',
+  ]
+    .join(' ')
+    .split(' '),
+);
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// "Has a dog called Biscuit." and "has a dog called biscuit" are the same
+// fact, in any script
+const normalize = (text: string) =>
+  text
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N} ]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const keywords = (text: string): Set<string> =>
+  new Set(
+    normalize(text)
+      .split(' ')
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word)),
+  );
+
+// Best first: each keyword shared with the recent turns outweighs recency,
+// which only breaks ties. Items come in newest first.
+const rankByRelevance = <T>(
+  items: T[],
+  textOf: (item: T) => string,
+  recent: Set<string>,
+  limit: number,
+): T[] =>
+  items
+    .map((item, index) => {
+      let overlap = 0;
+      keywords(textOf(item)).forEach(word => {
+        if (recent.has(word)) {
+          overlap += 1;
+        }
+      });
+      return {item, score: overlap + 1 - index / items.length};
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({item}) => item);
+
+// The prompt for the end-of-call summary. Known facts are listed so the model
+// only reports new ones.
+export const buildSummaryPrompt = (knownFacts: MemoryFact[]): string => {
+  const known = knownFacts.length
+    ? `\nAlready remembered, do not repeat:\n${knownFacts
+        .map(fact => `- ${fact.text}`)
+        .join('\n')}`
+    : '';
+  return `The call is over and the user can no longer hear you. Do not address them. Reply with JSON only, no markdown, in this shape:
+{"summary": "two or three sentences on what you talked about", "facts": ["lasting facts about the user"]}
+Facts are things worth remembering in future calls: names of people and pets, work, plans and upcoming events, likes and dislikes. Write each fact as a short sentence about the user, e.g. "Has a job interview at a bakery next week". Leave out small talk. Use an empty list when there is nothing new.${known}`;
+};
+
+// Reads the model's answer to buildSummaryPrompt(); null if it is unusable
+export const parseSummaryAnswer = (answer: string): SummaryAnswer | null => {
+  const start = answer.indexOf('{');
+  const end = answer.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(answer.slice(start, end + 1));
+    const summary =
+      typeof parsed.summary === 'string' ? parsed.summary.trim() : '';
+    const facts: string[] = Array.isArray(parsed.facts)
+      ? parsed.facts
+          .filter((fact: unknown) => typeof fact === 'string')
+          .map((fact: string) => fact.trim())
+          .filter(Boolean)
+      : [];
+    return summary || facts.length ? {summary, facts} : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// The instructions section that tells ChatterBuddy what it remembers
+export const formatMemories = (memories: RelevantMemories): string => {
+  const sections: string[] = [];
+  if (memories.facts.length) {
+    sections.push(
+      `WHAT YOU REMEMBER ABOUT THE USER:\n${memories.facts
+        .map(fact => `- ${fact.text}`)
+        .join('\n')}`,
+    );
+  }
+  if (memories.conversations.length) {
+    sections.push(
+      `RECENT CONVERSATIONS:\n${memories.conversations
+        .map(
+          memory =>
+            `- ${new Date(memory.createdAt).toDateString()}: ${memory.summary}`,
+        )
+        .join('\n')}`,
+    );
+  }
+  if (!sections.length) {
+    return '';
+  }
+  return `${sections.join(
+    '\n\n',
+  )}\n\nBring these up naturally when they fit, like a friend who remembers. Don't recite them or mention that they were saved.`;
+};
+
+export class MemoryService {
+  private static readonly FACTS_KEY = 'memory_facts';
+  private static readonly CONVERSATIONS_KEY = 'memory_conversations';
+
+  // Most recently learned first
+  static async getFacts(): Promise<MemoryFact[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.FACTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Error loading memory facts:', error);
+      return [];
+    }
+  }
+
+  // Newest first
+  static async getConversations(): Promise<ConversationMemory[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.CONVERSATIONS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      log.error('Error loading conversation memories:', error);
+      return [];
+    }
+  }
+
+  // The facts and conversations that best match what was said recently, for
+  // the next call's instructions. Without recent turns, the latest ones.
+  static async getRelevantMemories(
+    recentTurns: string[] = [],
+  ): Promise<RelevantMemories> {
+    const [facts, conversations] = await Promise.all([
+      this.getFacts(),
+      this.getConversations(),
+    ]);
+    const recent = keywords(recentTurns.join(' '));
+    return {
+      facts: rankByRelevance(facts, fact => fact.text, recent, PROMPT_FACTS),
+      conversations: rankByRelevance(
+        conversations,
+        memory => memory.summary,
+        recent,
+        PROMPT_CONVERSATIONS,
+      ),
+    };
+  }
+
+  // Stores the summary and facts from the model's end-of-call answer
+  static async rememberConversation(
+    answer: string,
+    conversationId?: string,
+  ): Promise<void> {
+    const parsed = parseSummaryAnswer(answer);
+    if (!parsed) {
+      log.warn('Could not read the call summary:', answer);
+      return;
+    }
+    if (parsed.summary) {
+      await this.saveConversation(parsed.summary, conversationId);
+    }
+    await this.addFacts(parsed.facts);
+    log.info(`🧠 Remembered the call and ${parsed.facts.length} fact(s)`);
+  }
+
+  // Facts already known are moved to the front instead of being added twice
+  static async addFacts(texts: string[]): Promise<void> {
+    if (!texts.length) {
+      return;
+    }
+    try {
+      const facts = await this.getFacts();
+      const now = Date.now();
+      texts.forEach(text => {
+        const existing = facts.findIndex(
+          fact => normalize(fact.text) === normalize(text),
+        );
+        if (existing >= 0) {
+          const [fact] = facts.splice(existing, 1);
+          facts.unshift({...fact, updatedAt: now});
+        } else {
+          facts.unshift({
+            id: createId('fact'),
+            text,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+      });
+      await this.saveFacts(facts.slice(0, MAX_FACTS));
+    } catch (error) {
+      log.error('Error saving memory facts:', error);
+    }
+  }
+
+  static async updateFact(id: string, text: string): Promise<void> {
+    try {
+      const facts = await this.getFacts();
+      await this.saveFacts(
+        facts.map(fact =>
+          fact.id === id ? {...fact, text, updatedAt: Date.now()} : fact,
+        ),
+      );
+    } catch (error) {
+      log.error('Error updating memory fact:', error);
+    }
+  }
+
+  static async deleteFact(id: string): Promise<void> {
+    try {
+      const facts = await this.getFacts();
+      await this.saveFacts(facts.filter(fact => fact.id !== id));
+    } catch (error) {
+      log.error('Error deleting memory fact:', error);
+    }
+  }
+
+  static async deleteConversation(id: string): Promise<void> {
+    try {
+      const conversations = await this.getConversations();
+      await AsyncStorage.setItem(
+        this.CONVERSATIONS_KEY,
+        JSON.stringify(conversations.filter(memory => memory.id !== id)),
+      );
+    } catch (error) {
+      log.error('Error deleting conversation memory:', error);
+    }
+  }
+
+  // Forgets the summary of a conversation deleted from History. Facts learned
+  // in it are kept; they are managed on their own in the Memory screen.
+  static async deleteConversationsFor(conversationId: string): Promise<void> {
+    try {
+      const conversations = await this.getConversations();
+      await AsyncStorage.setItem(
+        this.CONVERSATIONS_KEY,
+        JSON.stringify(
+          conversations.filter(
+            memory => memory.conversationId !== conversationId,
+          ),
+        ),
+      );
+    } catch (error) {
+      log.error('Error deleting conversation memory:', error);
+    }
+  }
+
+  static async clearMemories(): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove([this.FACTS_KEY, this.CONVERSATIONS_KEY]);
+    } catch (error) {
+      log.error('Error clearing memories:', error);
+    }
+  }
+
+  private static async saveConversation(
+    summary: string,
+    conversationId?: string,
+  ): Promise<void> {
+    try {
+      const conversations = await this.getConversations();
+      const memory: ConversationMemory = {
+        id: createId('conversation'),
+        conversationId,
+        summary,
+        createdAt: Date.now(),
+      };
+      await AsyncStorage.setItem(
+        this.CONVERSATIONS_KEY,
+        JSON.stringify([memory, ...conversations].slice(0, MAX_CONVERSATIONS)),
+      );
+    } catch (error) {
+      log.error('Error saving conversation memory:', error);
+    }
+  }
+
+  private static async saveFacts(facts: MemoryFact[]): Promise<void> {
+    await AsyncStorage.setItem(this.FACTS_KEY, JSON.stringify(facts));
+  }
+}
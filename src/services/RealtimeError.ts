@@ -0,0 +1,129 @@
+import type {RealtimeErrorDetails} from './RealtimeEvents';
+
+export type RealtimeErrorCode =
+  | 'permission-denied'
+  | 'signed-out'
+  | 'ephemeral-key-failed'
+  | 'sdp-rejected'
+  | 'rate-limited'
+  | 'invalid-session'
+  | 'network-lost'
+  | 'server-error';
+
+// What the UI should offer next to the message
+export type RealtimeErrorAction = 'retry' | 'open-settings' | 'dismiss';
+
+interface RealtimeErrorInfo {
+  retryable: boolean;
+  userMessage: string;
+  action: RealtimeErrorAction;
+}
+
+const ERROR_INFO: Record<RealtimeErrorCode, RealtimeErrorInfo> = {
+  'permission-denied': {
+    retryable: false,
+    userMessage:
+      "ChatterBuddy can't hear you without the microphone. You can still type, or allow it in Settings.",
+    action: 'open-settings',
+  },
+  'signed-out': {
+    retryable: false,
+    userMessage:
+      "You're signed out. Sign in to keep talking with ChatterBuddy.",
+    action: 'dismiss',
+  },
+  'ephemeral-key-failed': {
+    retryable: true,
+    userMessage:
+      "Couldn't reach the ChatterBuddy server. Check your connection and try again.",
+    action: 'retry',
+  },
+  'sdp-rejected': {
+    retryable: true,
+    userMessage: "Couldn't set up the voice connection. Please try again.",
+    action: 'retry',
+  },
+  'rate-limited': {
+    retryable: true,
+    userMessage:
+      'ChatterBuddy is very busy right now. Please wait a minute and try again.',
+    action: 'retry',
+  },
+  'invalid-session': {
+    retryable: true,
+    userMessage: 'This conversation has expired. Start a new call to continue.',
+    action: 'retry',
+  },
+  'network-lost': {
+    retryable: true,
+    userMessage: 'The connection was lost. Check your internet and try again.',
+    action: 'retry',
+  },
+  'server-error': {
+    retryable: true,
+    userMessage: 'Something went wrong on our side. Please try again.',
+    action: 'retry',
+  },
+};
+
+// A failure the user can be told about. `message` keeps the technical detail
+// for logs; `userMessage` is what the screen shows.
+export class RealtimeError extends Error {
+  readonly code: RealtimeErrorCode;
+  readonly retryable: boolean;
+  readonly userMessage: string;
+  readonly action: RealtimeErrorAction;
+  readonly cause?: unknown;
+
+  constructor(code: RealtimeErrorCode, message?: string, cause?: unknown) {
+    super(message || ERROR_INFO[code].userMessage);
+    this.name = 'RealtimeError';
+    this.code = code;
+    this.retryable = ERROR_INFO[code].retryable;
+    this.userMessage = ERROR_INFO[code].userMessage;
+    this.action = ERROR_INFO[code].action;
+    this.cause = cause;
+  }
+}
+
+// Wraps anything thrown into a RealtimeError, keeping one that already is
+export const toRealtimeError = (
+  error: unknown,
+  fallbackCode: RealtimeErrorCode,
+): RealtimeError => {
+  if (error instanceof RealtimeError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new RealtimeError(fallbackCode, message, error);
+};
+
+// HTTP failures of the key and SDP requests; 429 is a rate limit either way
+export const fromHttpStatus = (
+  status: number | undefined,
+  fallbackCode: RealtimeErrorCode,
+  message: string,
+): RealtimeError =>
+  new RealtimeError(status === 429 ? 'rate-limited' : fallbackCode, message);
+
+// Classifies a server `error` event. Returns null for errors that only concern
+// a single client event (e.g. truncating an item that is already gone); those
+// are logged but not worth interrupting the user for.
+export const fromServerError = (
+  details: RealtimeErrorDetails,
+): RealtimeError | null => {
+  const code = details.code || '';
+  const message = `${details.type}${code ? ` (${code})` : ''}: ${
+    details.message
+  }`;
+  if (code.includes('rate_limit')) {
+    return new RealtimeError('rate-limited', message);
+  }
+  if (code.startsWith('session_') || code === 'invalid_session') {
+    return new RealtimeError('invalid-session', message);
+  }
+  if (details.type === 'server_error') {
+    return new RealtimeError('server-error', message);
+  }
+  return null;
+};
@@ -0,0 +1,347 @@
+// Type definitions for the OpenAI Realtime API events exchanged over the data channel.
+// Field names mirror the wire format, so they stay snake_case.
+
+export type RealtimeModality = 'text' | 'audio';
+export type RealtimeAudioFormat = 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+
+export interface RealtimeTurnDetection {
+  type: 'server_vad' | 'semantic_vad';
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  eagerness?: 'low' | 'medium' | 'high' | 'auto';
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+export interface RealtimeInputAudioTranscription {
+  model: string;
+  language?: string;
+  prompt?: string;
+}
+
+export interface RealtimeFunctionDefinition {
+  type: 'function';
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+export type RealtimeToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | {type: 'function'; name: string};
+
+// Everything a client may set through session.update
+export interface RealtimeSessionConfig {
+  modalities?: RealtimeModality[];
+  instructions?: string;
+  voice?: string;
+  input_audio_format?: RealtimeAudioFormat;
+  output_audio_format?: RealtimeAudioFormat;
+  input_audio_transcription?: RealtimeInputAudioTranscription | null;
+  input_audio_noise_reduction?: {type: 'near_field' | 'far_field'} | null;
+  turn_detection?: RealtimeTurnDetection | null;
+  tools?: RealtimeFunctionDefinition[];
+  tool_choice?: RealtimeToolChoice;
+  temperature?: number;
+  max_response_output_tokens?: number | 'inf';
+  speed?: number;
+}
+
+export interface RealtimeSession extends RealtimeSessionConfig {
+  id: string;
+  object: 'realtime.session';
+  model: string;
+}
+
+export type RealtimeContentPart =
+  | {type: 'input_text'; text: string}
+  | {type: 'input_audio'; audio?: string; transcript?: string | null}
+  | {type: 'item_reference'; id: string}
+  | {type: 'text'; text: string}
+  | {type: 'audio'; audio?: string; transcript?: string | null};
+
+export type RealtimeItemStatus = 'completed' | 'incomplete' | 'in_progress';
+
+interface RealtimeItemBase {
+  id?: string;
+  object?: 'realtime.item';
+  status?: RealtimeItemStatus;
+}
+
+export interface RealtimeMessageItem extends RealtimeItemBase {
+  type: 'message';
+  role: 'user' | 'assistant' | 'system';
+  content: RealtimeContentPart[];
+}
+
+export interface RealtimeFunctionCallItem extends RealtimeItemBase {
+  type: 'function_call';
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface RealtimeFunctionCallOutputItem extends RealtimeItemBase {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+export type RealtimeItem =
+  | RealtimeMessageItem
+  | RealtimeFunctionCallItem
+  | RealtimeFunctionCallOutputItem;
+
+export interface RealtimeUsage {
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  input_token_details?: {
+    cached_tokens?: number;
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+}
+
+export interface RealtimeResponse {
+  id: string;
+  object: 'realtime.response';
+  status: 'in_progress' | 'completed' | 'cancelled' | 'failed' | 'incomplete';
+  status_details?: {
+    type?: string;
+    reason?: string;
+    error?: {type?: string; code?: string} | null;
+  } | null;
+  output: RealtimeItem[];
+  conversation_id?: string;
+  metadata?: Record<string, string> | null;
+  usage?: RealtimeUsage | null;
+}
+
+export interface RealtimeErrorDetails {
+  type: string;
+  code?: string | null;
+  message: string;
+  param?: string | null;
+  event_id?: string | null;
+}
+
+export interface RealtimeRateLimit {
+  name: 'requests' | 'tokens';
+  limit: number;
+  remaining: number;
+  reset_seconds: number;
+}
+
+interface ResponseContentRef {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+}
+
+// Payload of every server event, keyed by its `type`
+export interface RealtimeServerEventMap {
+  error: {error: RealtimeErrorDetails};
+  'session.created': {session: RealtimeSession};
+  'session.updated': {session: RealtimeSession};
+  'transcription_session.updated': {session: Record<string, unknown>};
+  'conversation.created': {conversation: {id: string; object: string}};
+  'conversation.item.created': {
+    previous_item_id: string | null;
+    item: RealtimeItem;
+  };
+  'conversation.item.retrieved': {item: RealtimeItem};
+  'conversation.item.input_audio_transcription.delta': {
+    item_id: string;
+    content_index: number;
+    delta: string;
+  };
+  'conversation.item.input_audio_transcription.completed': {
+    item_id: string;
+    content_index: number;
+    transcript: string;
+  };
+  'conversation.item.input_audio_transcription.failed': {
+    item_id: string;
+    content_index: number;
+    error: RealtimeErrorDetails;
+  };
+  'conversation.item.truncated': {
+    item_id: string;
+    content_index: number;
+    audio_end_ms: number;
+  };
+  'conversation.item.deleted': {item_id: string};
+  'input_audio_buffer.committed': {
+    previous_item_id: string | null;
+    item_id: string;
+  };
+  'input_audio_buffer.cleared': {};
+  'input_audio_buffer.speech_started': {
+    audio_start_ms: number;
+    item_id: string;
+  };
+  'input_audio_buffer.speech_stopped': {audio_end_ms: number; item_id: string};
+  // The output_audio_buffer events are only sent on WebRTC connections
+  'output_audio_buffer.started': {response_id: string};
+  'output_audio_buffer.stopped': {response_id: string};
+  'output_audio_buffer.cleared': {response_id: string};
+  'response.created': {response: RealtimeResponse};
+  'response.done': {response: RealtimeResponse};
+  'response.output_item.added': {
+    response_id: string;
+    output_index: number;
+    item: RealtimeItem;
+  };
+  'response.output_item.done': {
+    response_id: string;
+    output_index: number;
+    item: RealtimeItem;
+  };
+  'response.content_part.added': ResponseContentRef & {
+    part: RealtimeContentPart;
+  };
+  'response.content_part.done': ResponseContentRef & {
+    part: RealtimeContentPart;
+  };
+  'response.text.delta': ResponseContentRef & {delta: string};
+  'response.text.done': ResponseContentRef & {text: string};
+  'response.audio_transcript.delta': ResponseContentRef & {delta: string};
+  'response.audio_transcript.done': ResponseContentRef & {transcript: string};
+  'response.audio.delta': ResponseContentRef & {delta: string};
+  'response.audio.done': ResponseContentRef;
+  'response.function_call_arguments.delta': {
+    response_id: string;
+    item_id: string;
+    output_index: number;
+    call_id: string;
+    delta: string;
+  };
+  'response.function_call_arguments.done': {
+    response_id: string;
+    item_id: string;
+    output_index: number;
+    call_id: string;
+    name?: string;
+    arguments: string;
+  };
+  'rate_limits.updated': {rate_limits: RealtimeRateLimit[]};
+}
+
+export interface RealtimeResponseCreateParams {
+  modalities?: RealtimeModality[];
+  instructions?: string;
+  voice?: string;
+  output_audio_format?: RealtimeAudioFormat;
+  tools?: RealtimeFunctionDefinition[];
+  tool_choice?: RealtimeToolChoice;
+  temperature?: number;
+  max_response_output_tokens?: number | 'inf';
+  // 'none' runs the response outside the default conversation
+  conversation?: 'auto' | 'none';
+  metadata?: Record<string, string>;
+  input?: RealtimeItem[];
+}
+
+// Payload of every client event, keyed by its `type`
+export interface RealtimeClientEventMap {
+  'session.update': {session: RealtimeSessionConfig};
+  'transcription_session.update': {session: Record<string, unknown>};
+  'input_audio_buffer.append': {audio: string};
+  'input_audio_buffer.commit': {};
+  'input_audio_buffer.clear': {};
+  'output_audio_buffer.clear': {};
+  'conversation.item.create': {
+    previous_item_id?: string | null;
+    item: RealtimeItem;
+  };
+  'conversation.item.retrieve': {item_id: string};
+  'conversation.item.truncate': {
+    item_id: string;
+    content_index: number;
+    audio_end_ms: number;
+  };
+  'conversation.item.delete': {item_id: string};
+  'response.create': {response?: RealtimeResponseCreateParams};
+  'response.cancel': {response_id?: string};
+}
+
+export type RealtimeServerEventType = keyof RealtimeServerEventMap;
+export type RealtimeClientEventType = keyof RealtimeClientEventMap;
+
+export type RealtimeServerEventOf<T extends RealtimeServerEventType> = {
+  type: T;
+  event_id: string;
+} & RealtimeServerEventMap[T];
+
+export type RealtimeClientEventOf<T extends RealtimeClientEventType> = {
+  type: T;
+  event_id?: string;
+} & RealtimeClientEventMap[T];
+
+// Discriminated unions over `type`
+export type RealtimeServerEvent = {
+  [T in RealtimeServerEventType]: RealtimeServerEventOf<T>;
+}[RealtimeServerEventType];
+
+export type RealtimeClientEvent = {
+  [T in RealtimeClientEventType]: RealtimeClientEventOf<T>;
+}[RealtimeClientEventType];
+
+// Anything the server sends that this file does not describe (yet)
+export interface UnknownRealtimeServerEvent {
+  type: string;
+  event_id?: string;
+  [key: string]: unknown;
+}
+
+// Runtime list of the server event types above; the Record type keeps it complete
+const SERVER_EVENT_TYPES: Record<RealtimeServerEventType, true> = {
+  error: true,
+  'session.created': true,
+  'session.updated': true,
+  'transcription_session.updated': true,
+  'conversation.created': true,
+  'conversation.item.created': true,
+  'conversation.item.retrieved': true,
+  'conversation.item.input_audio_transcription.delta': true,
+  'conversation.item.input_audio_transcription.completed': true,
+  'conversation.item.input_audio_transcription.failed': true,
+  'conversation.item.truncated': true,
+  'conversation.item.deleted': true,
+  'input_audio_buffer.committed': true,
+  'input_audio_buffer.cleared': true,
+  'input_audio_buffer.speech_started': true,
+  'input_audio_buffer.speech_stopped': true,
+  'output_audio_buffer.started': true,
+  'output_audio_buffer.stopped': true,
+  'output_audio_buffer.cleared': true,
+  'response.created': true,
+  'response.done': true,
+  'response.output_item.added': true,
+  'response.output_item.done': true,
+  'response.content_part.added': true,
+  'response.content_part.done': true,
+  'response.text.delta': true,
+  'response.text.done': true,
+  'response.audio_transcript.delta': true,
+  'response.audio_transcript.done': true,
+  'response.audio.delta': true,
+  'response.audio.done': true,
+  'response.function_call_arguments.delta': true,
+  'response.function_call_arguments.done': true,
+  'rate_limits.updated': true,
+};
+
+export const isRealtimeServerEventType = (
+  type: string,
+): type is RealtimeServerEventType =>
+  Object.prototype.hasOwnProperty.call(SERVER_EVENT_TYPES, type);
@@ -0,0 +1,140 @@
+// generating: response.created, no audio yet
+// playing: audio is being played out (output_audio_buffer.started)
+// finishing: the audio is over on the wire, waiting for local playback to drain
+export type ResponsePlaybackState = 'generating' | 'playing' | 'finishing';
+
+interface TrackedResponse {
+  state: ResponsePlaybackState;
+  playbackStartedAt?: number;
+  timer?: NodeJS.Timeout; // pending end of playback, 'finishing' only
+  poll?: NodeJS.Timeout;
+}
+
+// Whether ChatterBuddy is speaking, decided per response id. Several responses
+// can overlap (a reply still playing while the next one is generated); the bot
+// counts as speaking while any of them is playing or finishing.
+export class SpeakingStateMachine {
+  private responses = new Map<string, TrackedResponse>();
+  private speaking: boolean = false;
+  private onChange: (isSpeaking: boolean) => void;
+
+  constructor(onChange: (isSpeaking: boolean) => void) {
+    this.onChange = onChange;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  getState(responseId: string): ResponsePlaybackState | undefined {
+    return this.responses.get(responseId)?.state;
+  }
+
+  // Responses whose audio the user may be hearing, with when playback started
+  getAudibleResponses(): {responseId: string; playbackStartedAt: number}[] {
+    return [...this.responses.entries()]
+      .filter(([, response]) => response.state !== 'generating')
+      .map(([responseId, response]) => ({
+        responseId,
+        playbackStartedAt: response.playbackStartedAt || Date.now(),
+      }));
+  }
+
+  responseCreated(responseId: string): void {
+    if (!this.responses.has(responseId)) {
+      this.responses.set(responseId, {state: 'generating'});
+    }
+  }
+
+  playbackStarted(responseId: string): void {
+    const response = this.responses.get(responseId);
+    if (response?.state === 'playing') {
+      return;
+    }
+    this.clearTimers(response);
+    this.responses.set(responseId, {
+      state: 'playing',
+      playbackStartedAt: response?.playbackStartedAt || Date.now(),
+    });
+    this.update();
+  }
+
+  // Playback of the response ends now, or after delayMs
+  playbackEnded(responseId: string, delayMs: number = 0): void {
+    const response = this.responses.get(responseId);
+    if (!response) {
+      return;
+    }
+    this.clearTimers(response);
+    if (delayMs <= 0) {
+      this.remove(responseId);
+      return;
+    }
+    response.state = 'finishing';
+    response.timer = setTimeout(() => this.remove(responseId), delayMs);
+    this.update();
+  }
+
+  // Playback ends once isFinished() returns true, checked every pollMs, or
+  // after timeoutMs at the latest
+  playbackEndsWhen(
+    responseId: string,
+    isFinished: () => boolean,
+    pollMs: number,
+    timeoutMs: number,
+  ): void {
+    this.playbackEnded(responseId, timeoutMs);
+    const response = this.responses.get(responseId);
+    if (!response) {
+      return;
+    }
+    response.poll = setInterval(() => {
+      if (isFinished()) {
+        this.remove(responseId);
+      }
+    }, pollMs);
+  }
+
+  // A response that finished without ever playing audio (text only, cancelled)
+  // is forgotten; one that is still playing waits for its playback events or
+  // the fallback the service arms
+  responseDone(responseId: string): void {
+    if (this.responses.get(responseId)?.state === 'generating') {
+      this.remove(responseId);
+    }
+  }
+
+  // Forgets every response, e.g. on barge-in, reconnect or hang-up
+  reset(): void {
+    this.responses.forEach(response => this.clearTimers(response));
+    this.responses.clear();
+    this.update();
+  }
+
+  private remove(responseId: string): void {
+    this.clearTimers(this.responses.get(responseId));
+    this.responses.delete(responseId);
+    this.update();
+  }
+
+  private clearTimers(response?: TrackedResponse): void {
+    if (response?.timer) {
+      clearTimeout(response.timer);
+      response.timer = undefined;
+    }
+    if (response?.poll) {
+      clearInterval(response.poll);
+      response.poll = undefined;
+    }
+  }
+
+  private update(): void {
+    const speaking = [...this.responses.values()].some(
+      response => response.state !== 'generating',
+    );
+    if (speaking !== this.speaking) {
+      this.speaking = speaking;
+      this.onChange(speaking);
+    }
+  }
+}
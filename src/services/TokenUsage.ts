@@ -0,0 +1,119 @@
+import type {RealtimeUsage} from './RealtimeEvents';
+
+// Token counts and estimated cost, for one response or accumulated over a call or day
+export interface UsageTotals {
+  responses: number;
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  cachedInputTokens: number;
+  outputTextTokens: number;
+  outputAudioTokens: number;
+  costUsd: number;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  inputText: number;
+  cachedInput: number;
+  inputAudio: number;
+  outputText: number;
+  outputAudio: number;
+}
+
+export type BudgetScope = 'session' | 'daily';
+
+export interface UsageBudget {
+  sessionLimitUsd?: number | null; // null or undefined means no limit
+  dailyLimitUsd?: number | null;
+  dailySpentUsd?: number; // spent today before this call started
+  warnAtFraction?: number; // defaults to 0.8
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  spentUsd: number;
+  limitUsd: number;
+}
+
+export const EMPTY_USAGE: UsageTotals = {
+  responses: 0,
+  inputTextTokens: 0,
+  inputAudioTokens: 0,
+  cachedInputTokens: 0,
+  outputTextTokens: 0,
+  outputAudioTokens: 0,
+  costUsd: 0,
+};
+
+// Published realtime prices; unknown models are billed like gpt-4o-realtime
+const MINI_PRICING: ModelPricing = {
+  inputText: 0.6,
+  cachedInput: 0.3,
+  inputAudio: 10,
+  outputText: 2.4,
+  outputAudio: 20,
+};
+const FULL_PRICING: ModelPricing = {
+  inputText: 5,
+  cachedInput: 2.5,
+  inputAudio: 40,
+  outputText: 20,
+  outputAudio: 80,
+};
+
+export const getModelPricing = (model: string): ModelPricing =>
+  model.includes('mini') ? MINI_PRICING : FULL_PRICING;
+
+// Converts the usage block of a response.done event
+export const fromRealtimeUsage = (
+  usage: RealtimeUsage,
+  model: string,
+): UsageTotals => {
+  const inputDetails = usage.input_token_details || {};
+  const outputDetails = usage.output_token_details || {};
+  const inputAudioTokens = inputDetails.audio_tokens || 0;
+  const inputTextTokens =
+    inputDetails.text_tokens ?? usage.input_tokens - inputAudioTokens;
+  const cachedInputTokens = inputDetails.cached_tokens || 0;
+  const outputAudioTokens = outputDetails.audio_tokens || 0;
+  const outputTextTokens =
+    outputDetails.text_tokens ?? usage.output_tokens - outputAudioTokens;
+
+  // Cached tokens are part of the input counts but billed at the cached rate
+  const pricing = getModelPricing(model);
+  const uncachedRatio =
+    usage.input_tokens > 0
+      ? Math.max(0, 1 - cachedInputTokens / usage.input_tokens)
+      : 1;
+  const costUsd =
+    ((inputTextTokens * pricing.inputText +
+      inputAudioTokens * pricing.inputAudio) *
+      uncachedRatio +
+      cachedInputTokens * pricing.cachedInput +
+      outputTextTokens * pricing.outputText +
+      outputAudioTokens * pricing.outputAudio) /
+    1_000_000;
+
+  return {
+    responses: 1,
+    inputTextTokens,
+    inputAudioTokens,
+    cachedInputTokens,
+    outputTextTokens,
+    outputAudioTokens,
+    costUsd,
+  };
+};
+
+export const addUsage = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  responses: a.responses + b.responses,
+  inputTextTokens: a.inputTextTokens + b.inputTextTokens,
+  inputAudioTokens: a.inputAudioTokens + b.inputAudioTokens,
+  cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+  outputTextTokens: a.outputTextTokens + b.outputTextTokens,
+  outputAudioTokens: a.outputAudioTokens + b.outputAudioTokens,
+  costUsd: a.costUsd + b.costUsd,
+});
+
+export const formatUsd = (amount: number): string =>
+  amount < 0.01 && amount > 0 ? '<$0.01' : `$${amount.toFixed(2)}`;
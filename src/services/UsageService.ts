@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {addUsage, EMPTY_USAGE, UsageTotals} from './TokenUsage';
+import {createLogger} from './Logger';
+
+const log = createLogger('settings');
+
+export class UsageService {
+  private static readonly STORAGE_KEY = 'daily_usage';
+  private static readonly MAX_DAYS = 31;
+
+  // Local calendar day, e.g. 2025-01-31
+  static getDayKey(date: Date = new Date()): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  // Totals per day, keyed by getDayKey()
+  static async getDailyUsage(): Promise<Record<string, UsageTotals>> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      log.error('Error loading usage:', error);
+      return {};
+    }
+  }
+
+  static async getTodayUsage(): Promise<UsageTotals> {
+    const days = await this.getDailyUsage();
+    return days[this.getDayKey()] || EMPTY_USAGE;
+  }
+
+  // Adds one response's usage to today's totals and drops days older than MAX_DAYS
+  static async recordUsage(usage: UsageTotals): Promise<void> {
+    try {
+      const days = await this.getDailyUsage();
+      const today = this.getDayKey();
+      days[today] = addUsage(days[today] || EMPTY_USAGE, usage);
+
+      const kept = Object.keys(days).sort().slice(-this.MAX_DAYS);
+      const trimmed = Object.fromEntries(kept.map(key => [key, days[key]]));
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(trimmed));
+    } catch (error) {
+      log.error('Error saving usage:', error);
+    }
+  }
+}
@@ -0,0 +1,427 @@
+import type {RTCPeerConnection} from 'react-native-webrtc';
+import type {
+  RealtimeClientEvent,
+  RealtimeClientEventOf,
+  RealtimeClientEventType,
+  RealtimeServerEventMap,
+  RealtimeServerEventType,
+  RealtimeSession,
+  RealtimeUsage,
+} from '../RealtimeEvents';
+import type {RealtimeServiceDependencies} from '../OpenAIRealtimeService';
+
+// In-process stand-in for the Realtime API. It answers the ephemeral key request
+// and the SDP exchange, then talks to the service over a fake data channel (or a
+// fake WebSocket with transport: 'websocket'), so tests can script server events
+// and inspect what the client sent.
+//
+//   const server = new FakeRealtimeServer();
+//   const service = new OpenAIRealtimeService(config, callbacks, server.dependencies);
+//   await service.startCall();
+//   server.speak('resp_1');
+
+export class FakeMediaStreamTrack {
+  readonly kind = 'audio';
+  enabled: boolean = true;
+  muted: boolean = false;
+  readyState: 'live' | 'ended' = 'live';
+  onended: (() => void) | null = null;
+
+  stop(): void {
+    this.readyState = 'ended';
+  }
+
+  // Simulates the remote side ending the track
+  end(): void {
+    this.readyState = 'ended';
+    this.onended?.();
+  }
+}
+
+export class FakeMediaStream {
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = [new FakeMediaStreamTrack()]) {
+    this.tracks = tracks;
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+}
+
+export class FakeDataChannel {
+  readyState: 'connecting' | 'open' | 'closed' = 'connecting';
+  onopen: (() => void) | null = null;
+  onmessage: ((event: {data: string}) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  private server: FakeRealtimeServer;
+
+  constructor(readonly label: string, server: FakeRealtimeServer) {
+    this.server = server;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw new Error(`Data channel is ${this.readyState}`);
+    }
+    this.server.receive(data);
+  }
+
+  close(): void {
+    this.readyState = 'closed';
+  }
+
+  open(): void {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  deliver(data: string): void {
+    if (this.readyState === 'open') {
+      this.onmessage?.({data});
+    }
+  }
+}
+
+export class FakeWebSocket {
+  readyState: number = 0; // CONNECTING
+  onopen: (() => void) | null = null;
+  onmessage: ((event: {data: string}) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: {code: number}) => void) | null = null;
+  private server: FakeRealtimeServer;
+
+  constructor(
+    readonly url: string,
+    readonly headers: Record<string, string>,
+    server: FakeRealtimeServer,
+  ) {
+    this.server = server;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 1) {
+      throw new Error('WebSocket is not open');
+    }
+    this.server.receive(data);
+  }
+
+  close(code: number = 1000): void {
+    if (this.readyState === 3) {
+      return;
+    }
+    this.readyState = 3; // CLOSED
+    this.onclose?.({code});
+  }
+
+  open(): void {
+    this.readyState = 1; // OPEN
+    this.onopen?.();
+  }
+
+  deliver(data: string): void {
+    if (this.readyState === 1) {
+      this.onmessage?.({data});
+    }
+  }
+}
+
+export class FakePeerConnection {
+  connectionState: string = 'new';
+  onconnectionstatechange: (() => void) | null = null;
+  ontrack: ((event: {streams: FakeMediaStream[]}) => void) | null = null;
+  dataChannel: FakeDataChannel | null = null;
+  readonly localTracks: FakeMediaStreamTrack[] = [];
+  readonly transceivers: {kind: string; direction?: string}[] = [];
+  private server: FakeRealtimeServer;
+
+  constructor(readonly config: unknown, server: FakeRealtimeServer) {
+    this.server = server;
+  }
+
+  addTrack(track: FakeMediaStreamTrack): void {
+    this.localTracks.push(track);
+  }
+
+  addTransceiver(kind: string, init: {direction?: string} = {}): void {
+    this.transceivers.push({kind, direction: init.direction});
+  }
+
+  createDataChannel(label: string): FakeDataChannel {
+    this.dataChannel = new FakeDataChannel(label, this.server);
+    return this.dataChannel;
+  }
+
+  async createOffer(options: {iceRestart?: boolean} = {}) {
+    return {
+      type: 'offer',
+      sdp: options.iceRestart ? 'fake-offer-ice-restart' : 'fake-offer',
+    };
+  }
+
+  async setLocalDescription(): Promise<void> {}
+
+  async setRemoteDescription(): Promise<void> {
+    this.server.accept(this);
+  }
+
+  async getStats(): Promise<Map<string, object>> {
+    return new Map(
+      this.server.stats.map((stat, index) => [`stat_${index}`, stat]),
+    );
+  }
+
+  close(): void {
+    this.dataChannel?.close();
+    this.connectionState = 'closed';
+  }
+
+  setConnectionState(state: string): void {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+}
+
+export interface FakeRealtimeServerOptions {
+  ephemeralKey?: string;
+  // Reply to every session.update with session.updated (default true)
+  acknowledgeSessionUpdates?: boolean;
+  // Fail the SDP exchange with this HTTP status instead of answering
+  sdpErrorStatus?: number;
+}
+
+export interface FakeSpeechOptions {
+  itemId?: string;
+  transcript?: string;
+  audioChunks?: string[]; // base64 audio; the length drives duration estimates
+  stopPlayback?: boolean; // send output_audio_buffer.stopped at the end (default true)
+  usage?: RealtimeUsage; // reported in response.done
+}
+
+export class FakeRealtimeServer {
+  readonly received: RealtimeClientEvent[] = [];
+  readonly peerConnections: FakePeerConnection[] = [];
+  readonly sdpOffers: string[] = [];
+  readonly sockets: FakeWebSocket[] = [];
+  readonly microphoneStream = new FakeMediaStream();
+  readonly remoteStream = new FakeMediaStream();
+  keyRequests: number = 0;
+  // What getStats() reports, in RTCStats shape, e.g. {type: 'inbound-rtp', ...}
+  stats: object[] = [];
+  private options: FakeRealtimeServerOptions;
+  private session: RealtimeSession = {
+    id: 'sess_fake',
+    object: 'realtime.session',
+    model: 'gpt-4o-mini-realtime-preview-2024-12-17',
+  };
+  private eventCounter: number = 0;
+
+  constructor(options: FakeRealtimeServerOptions = {}) {
+    this.options = options;
+  }
+
+  // Pass as the third OpenAIRealtimeService constructor argument
+  get dependencies(): RealtimeServiceDependencies {
+    const backend = {
+      getEphemeralKey: async () => {
+        this.keyRequests += 1;
+        return {
+          ephemeralKey:
+            this.options.ephemeralKey || `ek_fake_${this.keyRequests}`,
+        };
+      },
+    };
+
+    const sdpFetch = async (_input: unknown, init?: {body?: unknown}) => {
+      this.sdpOffers.push(String(init?.body));
+      const status = this.options.sdpErrorStatus || 200;
+      return {
+        ok: status < 400,
+        status,
+        text: async () => 'fake-answer',
+      };
+    };
+
+    return {
+      backend,
+      webRTC: {
+        createPeerConnection: config => {
+          const peerConnection = new FakePeerConnection(config, this);
+          this.peerConnections.push(peerConnection);
+          return peerConnection as unknown as RTCPeerConnection;
+        },
+        mediaDevices: {
+          getUserMedia: async () => this.microphoneStream as any,
+        },
+        fetch: sdpFetch as unknown as typeof fetch,
+      },
+      createWebSocket: (url, headers) => {
+        const socket = new FakeWebSocket(url, headers, this);
+        this.sockets.push(socket);
+        // The real socket opens asynchronously, after the handlers are set
+        Promise.resolve().then(() => this.acceptSocket(socket));
+        return socket as unknown as WebSocket;
+      },
+    };
+  }
+
+  get peerConnection(): FakePeerConnection | undefined {
+    return this.peerConnections[this.peerConnections.length - 1];
+  }
+
+  get socket(): FakeWebSocket | undefined {
+    return this.sockets[this.sockets.length - 1];
+  }
+
+  // Whether the client is connected over WebSocket rather than WebRTC
+  get isWebSocket(): boolean {
+    return this.socket?.readyState === 1;
+  }
+
+  // Called when the client applies the SDP answer: connect, open the channel
+  // and announce the session the way the real API does
+  accept(peerConnection: FakePeerConnection): void {
+    if (peerConnection.dataChannel?.readyState === 'open') {
+      // ICE restart: the session and its data channel survive
+      if (peerConnection.connectionState !== 'connected') {
+        peerConnection.setConnectionState('connected');
+      }
+      return;
+    }
+    peerConnection.setConnectionState('connected');
+    peerConnection.ontrack?.({streams: [this.remoteStream]});
+    peerConnection.dataChannel?.open();
+    this.emit('session.created', {session: this.session});
+  }
+
+  acceptSocket(socket: FakeWebSocket): void {
+    if (socket.readyState !== 0) {
+      return;
+    }
+    socket.open();
+    this.emit('session.created', {session: this.session});
+  }
+
+  // Called for every client event sent over the data channel
+  receive(data: string): void {
+    const event: RealtimeClientEvent = JSON.parse(data);
+    this.received.push(event);
+
+    if (
+      event.type === 'session.update' &&
+      this.options.acknowledgeSessionUpdates !== false
+    ) {
+      this.session = {...this.session, ...event.session};
+      this.emit('session.updated', {session: this.session});
+    }
+  }
+
+  receivedOfType<T extends RealtimeClientEventType>(
+    type: T,
+  ): RealtimeClientEventOf<T>[] {
+    return this.received.filter(
+      event => event.type === type,
+    ) as RealtimeClientEventOf<T>[];
+  }
+
+  emit<T extends RealtimeServerEventType>(
+    type: T,
+    payload: RealtimeServerEventMap[T],
+  ): void {
+    this.eventCounter += 1;
+    this.emitRaw(
+      JSON.stringify({
+        type,
+        event_id: `event_${this.eventCounter}`,
+        ...payload,
+      }),
+    );
+  }
+
+  // Sends an arbitrary string, e.g. malformed JSON or an undocumented event
+  emitRaw(data: string): void {
+    if (this.isWebSocket) {
+      this.socket!.deliver(data);
+      return;
+    }
+    this.peerConnection?.dataChannel?.deliver(data);
+  }
+
+  emitError(message: string, details: {code?: string; event_id?: string} = {}) {
+    this.emit('error', {
+      error: {type: 'invalid_request_error', message, ...details},
+    });
+  }
+
+  // One complete spoken response: created, audio and transcript, done, and
+  // finally output_audio_buffer.stopped once "playback" ends. The WebSocket API
+  // has no output_audio_buffer events, so they are left out there.
+  speak(responseId: string, options: FakeSpeechOptions = {}): void {
+    const itemId = options.itemId || `item_${responseId}`;
+    const transcript = options.transcript || 'Hello there!';
+    const audioChunks = options.audioChunks || ['AAAA'];
+    const ref = {
+      response_id: responseId,
+      item_id: itemId,
+      output_index: 0,
+      content_index: 0,
+    };
+
+    this.emit('response.created', {
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'in_progress',
+        output: [],
+      },
+    });
+    this.emit('response.output_item.added', {
+      response_id: responseId,
+      output_index: 0,
+      item: {id: itemId, type: 'message', role: 'assistant', content: []},
+    });
+    const reportsPlayback = !this.isWebSocket;
+    if (reportsPlayback) {
+      this.emit('output_audio_buffer.started', {response_id: responseId});
+    }
+    audioChunks.forEach(delta => {
+      this.emit('response.audio.delta', {...ref, delta});
+    });
+    this.emit('response.audio_transcript.delta', {...ref, delta: transcript});
+    this.emit('response.audio.done', ref);
+    this.emit('response.audio_transcript.done', {...ref, transcript});
+    this.emit('response.done', {
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'completed',
+        output: [
+          {
+            id: itemId,
+            type: 'message',
+            role: 'assistant',
+            content: [{type: 'audio', transcript}],
+          },
+        ],
+        usage: options.usage,
+      },
+    });
+    if (reportsPlayback && options.stopPlayback !== false) {
+      this.emit('output_audio_buffer.stopped', {response_id: responseId});
+    }
+  }
+
+  // Simulates the network dropping; the service should start reconnecting
+  dropConnection(state: 'disconnected' | 'failed' = 'disconnected'): void {
+    if (this.isWebSocket) {
+      this.socket!.close(1006);
+      return;
+    }
+    this.peerConnection?.setConnectionState(state);
+  }
+}
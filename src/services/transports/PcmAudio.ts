@@ -0,0 +1,122 @@
+import LiveAudioStream, {IAudioRecord} from 'react-native-live-audio-stream';
+import {AudioBufferSourceNode, AudioContext} from 'react-native-audio-api';
+import {PcmAudioSink, PcmAudioSource} from './WebSocketTransport';
+import {createLogger} from '../Logger';
+
+const audioLog = createLogger('audio');
+
+// What the Realtime API sends and expects as pcm16
+export const PCM_SAMPLE_RATE = 24000;
+// Android's VOICE_COMMUNICATION source turns on echo cancellation, so the
+// speaker does not talk over the user's microphone
+const VOICE_COMMUNICATION = 7;
+const CAPTURE_BUFFER_BYTES = 4800; // 100 ms of mono PCM16
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Uint8Array(128);
+for (let index = 0; index < BASE64_ALPHABET.length; index++) {
+  BASE64_VALUES[BASE64_ALPHABET.charCodeAt(index)] = index;
+}
+
+// Base64 PCM16 (little-endian) to samples between -1 and 1
+export const decodePcm16 = (encoded: string): number[] => {
+  // '=' padding counts as zero bits; the bytes it stands for are left off
+  const padding = encoded.endsWith('==') ? 2 : encoded.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array(Math.floor(encoded.length / 4) * 3 - padding);
+  let byteIndex = 0;
+  for (let index = 0; index < encoded.length; index += 4) {
+    const group =
+      BASE64_VALUES[encoded.charCodeAt(index)] * 262144 +
+      BASE64_VALUES[encoded.charCodeAt(index + 1)] * 4096 +
+      BASE64_VALUES[encoded.charCodeAt(index + 2)] * 64 +
+      BASE64_VALUES[encoded.charCodeAt(index + 3)];
+    // Writes past the end, for the padding, are ignored
+    bytes[byteIndex++] = Math.floor(group / 65536);
+    bytes[byteIndex++] = Math.floor(group / 256) % 256;
+    bytes[byteIndex++] = group % 256;
+  }
+
+  const view = new DataView(bytes.buffer);
+  const samples = new Array<number>(Math.floor(bytes.length / 2));
+  for (let index = 0; index < samples.length; index++) {
+    samples[index] = view.getInt16(index * 2, true) / 32768;
+  }
+  return samples;
+};
+
+// Streams the microphone as base64 PCM16 chunks of about 100 ms
+export class MicrophonePcmSource implements PcmAudioSource {
+  private recorder: IAudioRecord;
+
+  constructor(recorder: IAudioRecord = LiveAudioStream) {
+    this.recorder = recorder;
+  }
+
+  async start(onChunk: (base64Pcm16: string) => void): Promise<void> {
+    this.recorder.init({
+      sampleRate: PCM_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      audioSource: VOICE_COMMUNICATION,
+      bufferSize: CAPTURE_BUFFER_BYTES,
+      wavFile: '',
+    });
+    this.recorder.on('data', onChunk);
+    this.recorder.start();
+    audioLog.info('🎤 Streaming microphone audio');
+  }
+
+  stop(): void {
+    this.recorder
+      .stop()
+      .catch(error => audioLog.warn('Failed to stop audio capture:', error));
+  }
+}
+
+// Plays response.audio.delta chunks back to back. The audio context is
+// created on the first chunk and kept for later calls.
+export class SpeakerPcmSink implements PcmAudioSink {
+  private context: AudioContext | null = null;
+  private scheduled: {node: AudioBufferSourceNode; endsAt: number}[] = [];
+  private nextStartTime: number = 0;
+  private createContext: () => AudioContext;
+
+  constructor(
+    createContext: () => AudioContext = () =>
+      new AudioContext({sampleRate: PCM_SAMPLE_RATE}),
+  ) {
+    this.createContext = createContext;
+  }
+
+  play(base64Pcm16: string): void {
+    const samples = decodePcm16(base64Pcm16);
+    if (!samples.length) {
+      return;
+    }
+    if (!this.context) {
+      this.context = this.createContext();
+    }
+    const context = this.context;
+    const buffer = context.createBuffer(1, samples.length, PCM_SAMPLE_RATE);
+    buffer.copyToChannel(samples, 0);
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.connect(context.destination);
+
+    // Right after the previous chunk, or now if playback had caught up
+    const startsAt = Math.max(context.currentTime, this.nextStartTime);
+    node.start(startsAt);
+    this.nextStartTime = startsAt + samples.length / PCM_SAMPLE_RATE;
+    this.scheduled = this.scheduled.filter(
+      chunk => chunk.endsAt > context.currentTime,
+    );
+    this.scheduled.push({node, endsAt: this.nextStartTime});
+  }
+
+  clear(): void {
+    this.scheduled.forEach(({node}) => node.stop());
+    this.scheduled = [];
+    this.nextStartTime = 0;
+  }
+}
@@ -0,0 +1,51 @@
+import type {MediaStream} from 'react-native-webrtc';
+import type {StatsReportLike} from '../CallMetrics';
+
+export type TransportKind = 'webrtc' | 'websocket';
+
+// Mirrors RTCPeerConnectionState so both transports report the same states
+export type TransportState =
+  | 'new'
+  | 'connecting'
+  | 'connected'
+  | 'disconnected'
+  | 'failed'
+  | 'closed';
+
+export interface TransportHandlers {
+  onOpen: () => void; // the event channel is ready for client events
+  onMessage: (data: string) => void; // one raw server event (JSON)
+  onStateChange: (state: TransportState) => void;
+  onChannelError: (error: unknown) => void;
+  onRemoteAudioStream?: (stream: MediaStream) => void; // WebRTC only
+}
+
+export interface TransportConnectOptions {
+  ephemeralKey: string;
+  model: string;
+  useMicrophone: boolean;
+}
+
+// How the service talks to the Realtime API. One instance lives for the whole
+// call; connect() may run again after disconnect() when the service reconnects.
+export interface RealtimeTransport {
+  readonly kind: TransportKind;
+  // Does the work that needs no key ahead of connect(), e.g. opening the
+  // microphone and creating the offer
+  prepare?(options: {useMicrophone: boolean}): Promise<void>;
+  connect(options: TransportConnectOptions): Promise<void>;
+  // Tries to recover the current connection without a new session (ICE restart)
+  restart?(): Promise<void>;
+  send(data: string): boolean;
+  isOpen(): boolean;
+  isConnected(): boolean;
+  setMicrophoneEnabled(enabled: boolean): void;
+  // Raw connection statistics; null while there is no connection
+  getStats?(): Promise<StatsReportLike | null>;
+  // Drops assistant audio that is queued locally but not yet played
+  clearPlayback?(): void;
+  // Closes the connection but keeps the microphone for the next connect()
+  disconnect(): void;
+  // Closes the connection and releases the microphone
+  close(): void;
+}
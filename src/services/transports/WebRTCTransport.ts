@@ -0,0 +1,286 @@
+import {
+  RTCPeerConnection,
+  RTCSessionDescription,
+  mediaDevices,
+  MediaStream,
+} from 'react-native-webrtc';
+import {Platform} from 'react-native';
+import type {StatsReportLike} from '../CallMetrics';
+import {fromHttpStatus} from '../RealtimeError';
+import {
+  RealtimeTransport,
+  TransportConnectOptions,
+  TransportHandlers,
+} from './RealtimeTransport';
+import {createLogger} from '../Logger';
+
+const log = createLogger('realtime');
+
+const DEFAULT_WEBRTC_URL = 'https://api.openai.com/v1/realtime';
+
+type PeerConnectionConfig = ConstructorParameters<typeof RTCPeerConnection>[0];
+
+export interface WebRTCTransportOptions {
+  baseUrl?: string; // e.g. a local mock server during development
+  // The rest default to react-native-webrtc and the global fetch; tests pass fakes
+  createPeerConnection?: (config: PeerConnectionConfig) => RTCPeerConnection;
+  mediaDevices?: Pick<typeof mediaDevices, 'getUserMedia'>;
+  fetch?: typeof fetch;
+}
+
+// Audio flows over the peer connection, events over the 'oai-events' data channel
+export class WebRTCTransport implements RealtimeTransport {
+  readonly kind = 'webrtc' as const;
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: any = null;
+  private localStream: MediaStream | null = null;
+  private microphoneEnabled: boolean = true;
+  private options: TransportConnectOptions | null = null;
+  // Set by prepare(): a peer connection with its offer, not negotiated yet
+  private prepared: {useMicrophone: boolean; offer: {sdp?: string}} | null =
+    null;
+  private handlers: TransportHandlers;
+  private baseUrl: string;
+  private createPeerConnection: (
+    config: PeerConnectionConfig,
+  ) => RTCPeerConnection;
+  private mediaDevices: Pick<typeof mediaDevices, 'getUserMedia'>;
+  private fetch: typeof fetch;
+
+  constructor(
+    handlers: TransportHandlers,
+    options: WebRTCTransportOptions = {},
+  ) {
+    this.handlers = handlers;
+    this.baseUrl = options.baseUrl || DEFAULT_WEBRTC_URL;
+    this.createPeerConnection =
+      options.createPeerConnection || (config => new RTCPeerConnection(config));
+    this.mediaDevices = options.mediaDevices || mediaDevices;
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  // Builds the peer connection, opens the microphone and creates the offer so
+  // connect() only has to run the SDP exchange
+  async prepare(options: {useMicrophone: boolean}): Promise<void> {
+    if (this.prepared?.useMicrophone === options.useMicrophone) {
+      return;
+    }
+    this.disconnect();
+    const peerConnection = await this.setUpPeerConnection(
+      options.useMicrophone,
+    );
+    const offer = await peerConnection.createOffer({});
+    await peerConnection.setLocalDescription(offer);
+    if (this.peerConnection === peerConnection) {
+      this.prepared = {useMicrophone: options.useMicrophone, offer};
+    }
+  }
+
+  // Completes the SDP exchange for the given key, on the prepared peer
+  // connection when it fits
+  async connect(options: TransportConnectOptions): Promise<void> {
+    this.options = options;
+
+    if (this.prepared?.useMicrophone === options.useMicrophone) {
+      log.debug('Using the prepared peer connection');
+      const {offer} = this.prepared;
+      this.prepared = null;
+      await this.exchangeSdp(offer);
+      return;
+    }
+
+    this.disconnect();
+    await this.setUpPeerConnection(options.useMicrophone);
+
+    // Start the session using SDP (Session Description Protocol)
+    await this.negotiate();
+  }
+
+  private async setUpPeerConnection(
+    useMicrophone: boolean,
+  ): Promise<RTCPeerConnection> {
+    // Create peer connection with platform-specific configuration
+    const pcConfig = {
+      iceServers: [
+        {
+          urls: ['stun:stun.l.google.com:19302'],
+        },
+      ],
+      // iOS-specific optimizations
+      ...(Platform.OS === 'ios' && {
+        iceCandidatePoolSize: 10,
+        bundlePolicy: 'max-bundle' as const,
+        rtcpMuxPolicy: 'require' as const,
+      }),
+    };
+
+    const peerConnection = this.createPeerConnection(pcConfig);
+    this.peerConnection = peerConnection;
+
+    // Set up connection state monitoring (cast to any to avoid TypeScript issues)
+    (peerConnection as any).onconnectionstatechange = () => {
+      // Ignore late events from a connection we already replaced
+      if (this.peerConnection !== peerConnection) {
+        return;
+      }
+      const state = (peerConnection as any).connectionState || 'unknown';
+      log.debug('Connection state:', state);
+      this.handlers.onStateChange(state);
+    };
+
+    // Set up to receive remote audio from the model (cast to any for TypeScript)
+    (peerConnection as any).ontrack = (event: any) => {
+      log.debug('Received remote audio track');
+      if (event.streams && event.streams[0]) {
+        this.handlers.onRemoteAudioStream?.(event.streams[0]);
+      }
+    };
+
+    if (useMicrophone) {
+      // Get local audio (microphone input), reusing the stream across reconnects
+      if (!this.localStream) {
+        this.localStream = await this.mediaDevices.getUserMedia({
+          audio: true,
+          video: false,
+        });
+      }
+
+      // Add local audio track for microphone input
+      const audioTracks = this.localStream.getAudioTracks();
+      if (audioTracks.length > 0) {
+        peerConnection.addTrack(audioTracks[0], this.localStream);
+      }
+      this.setMicrophoneEnabled(this.microphoneEnabled);
+    } else {
+      // Text chat: still receive ChatterBuddy's voice, but never open the mic
+      peerConnection.addTransceiver('audio', {direction: 'recvonly'});
+    }
+
+    // Set up data channel for sending and receiving events (following official docs)
+    const dataChannel: any = peerConnection.createDataChannel('oai-events');
+    this.dataChannel = dataChannel;
+
+    dataChannel.onopen = () => {
+      log.info('Data channel opened');
+      this.handlers.onOpen();
+    };
+
+    dataChannel.onmessage = (event: any) => {
+      // Realtime server events appear here!
+      this.handlers.onMessage(event.data);
+    };
+
+    dataChannel.onerror = (error: any) => {
+      if (this.dataChannel === dataChannel) {
+        this.handlers.onChannelError(error);
+      }
+    };
+
+    return peerConnection;
+  }
+
+  // ICE restart on the existing peer connection, keeping the current session
+  async restart(): Promise<void> {
+    await this.negotiate({iceRestart: true});
+  }
+
+  // Runs one offer/answer exchange against the Realtime API with the current key
+  private async negotiate(offerOptions: {iceRestart?: boolean} = {}) {
+    const peerConnection = this.peerConnection;
+    if (!peerConnection || !this.options) {
+      throw new Error('No peer connection to negotiate');
+    }
+
+    const offer = await peerConnection.createOffer(offerOptions);
+    await peerConnection.setLocalDescription(offer);
+    await this.exchangeSdp(offer);
+  }
+
+  // Posts the local offer and applies the answer
+  private async exchangeSdp(offer: {sdp?: string}): Promise<void> {
+    const peerConnection = this.peerConnection;
+    if (!peerConnection || !this.options) {
+      throw new Error('No peer connection to negotiate');
+    }
+
+    // Send offer to OpenAI API following official documentation
+    const sdpResponse = await this.fetch(
+      `${this.baseUrl}?model=${this.options.model}`,
+      {
+        method: 'POST',
+        body: offer.sdp,
+        headers: {
+          Authorization: `Bearer ${this.options.ephemeralKey}`,
+          'Content-Type': 'application/sdp',
+        },
+      },
+    );
+
+    if (!sdpResponse.ok) {
+      throw fromHttpStatus(
+        sdpResponse.status,
+        'sdp-rejected',
+        `SDP request failed: ${sdpResponse.status}`,
+      );
+    }
+
+    const answerSdp = await sdpResponse.text();
+    const answer = new RTCSessionDescription({
+      type: 'answer',
+      sdp: answerSdp,
+    });
+
+    await peerConnection.setRemoteDescription(answer);
+  }
+
+  send(data: string): boolean {
+    if (!this.isOpen()) {
+      return false;
+    }
+    this.dataChannel.send(data);
+    return true;
+  }
+
+  isOpen(): boolean {
+    return this.dataChannel?.readyState === 'open';
+  }
+
+  isConnected(): boolean {
+    return this.peerConnection?.connectionState === 'connected';
+  }
+
+  async getStats(): Promise<StatsReportLike | null> {
+    return this.peerConnection ? this.peerConnection.getStats() : null;
+  }
+
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+    this.localStream?.getAudioTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+  }
+
+  disconnect(): void {
+    this.prepared = null;
+    if (this.dataChannel) {
+      const dataChannel = this.dataChannel;
+      this.dataChannel = null;
+      dataChannel.close();
+    }
+
+    if (this.peerConnection) {
+      const peerConnection = this.peerConnection;
+      this.peerConnection = null;
+      peerConnection.close();
+    }
+  }
+
+  close(): void {
+    this.disconnect();
+    if (this.localStream) {
+      this.localStream.getTracks().forEach(track => track.stop());
+      this.localStream = null;
+    }
+    this.options = null;
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  RealtimeTransport,
+  TransportConnectOptions,
+  TransportHandlers,
+  TransportState,
+} from './RealtimeTransport';
+import {createLogger} from '../Logger';
+
+const log = createLogger('realtime');
+const audioLog = createLogger('audio');
+
+const DEFAULT_WEBSOCKET_URL = 'wss://api.openai.com/v1/realtime';
+const WEBSOCKET_OPEN = 1; // WebSocket.OPEN, which not every runtime defines
+
+// Captures microphone audio as base64 PCM16 (24 kHz, mono, little-endian)
+export interface PcmAudioSource {
+  start(onChunk: (base64Pcm16: string) => void): Promise<void>;
+  stop(): void;
+}
+
+// Plays base64 PCM16 chunks from response.audio.delta in arrival order
+export interface PcmAudioSink {
+  play(base64Pcm16: string): void;
+  clear(): void; // drop everything queued but not yet played
+}
+
+export type WebSocketFactory = (
+  url: string,
+  headers: Record<string, string>,
+) => WebSocket;
+
+export interface WebSocketTransportOptions {
+  url?: string; // e.g. a local mock server during development
+  audioSource?: PcmAudioSource;
+  audioSink?: PcmAudioSink;
+  createWebSocket?: WebSocketFactory; // defaults to React Native's WebSocket
+}
+
+// React Native's WebSocket accepts headers as a third argument
+const createNativeWebSocket: WebSocketFactory = (url, headers) => {
+  const SocketWithHeaders = WebSocket as any;
+  return new SocketWithHeaders(url, null, {headers});
+};
+
+// Events and audio share one socket: microphone audio goes up as
+// input_audio_buffer.append, assistant audio comes down as response.audio.delta.
+export class WebSocketTransport implements RealtimeTransport {
+  readonly kind = 'websocket' as const;
+  private socket: WebSocket | null = null;
+  private state: TransportState = 'new';
+  private microphoneEnabled: boolean = true;
+  private isCapturing: boolean = false;
+  private handlers: TransportHandlers;
+  private options: WebSocketTransportOptions;
+
+  constructor(
+    handlers: TransportHandlers,
+    options: WebSocketTransportOptions = {},
+  ) {
+    this.handlers = handlers;
+    this.options = options;
+  }
+
+  connect(options: TransportConnectOptions): Promise<void> {
+    const url = `${this.options.url || DEFAULT_WEBSOCKET_URL}?model=${
+      options.model
+    }`;
+    if (!this.options.audioSink) {
+      audioLog.warn(
+        'WebSocket transport has no audio sink; spoken replies will not be played',
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const createWebSocket =
+        this.options.createWebSocket || createNativeWebSocket;
+      const socket = createWebSocket(url, {
+        Authorization: `Bearer ${options.ephemeralKey}`,
+        'OpenAI-Beta': 'realtime=v1',
+      });
+      this.socket = socket;
+      this.setState('connecting');
+      let settled = false;
+
+      socket.onopen = () => {
+        if (this.socket !== socket) {
+          return;
+        }
+        log.info('WebSocket opened');
+        settled = true;
+        this.setState('connected');
+        this.handlers.onOpen();
+        if (options.useMicrophone) {
+          this.startCapture();
+        }
+        resolve();
+      };
+
+      socket.onmessage = (event: WebSocketMessageEvent) => {
+        if (this.socket !== socket || typeof event.data !== 'string') {
+          return;
+        }
+        this.playAudioDelta(event.data);
+        this.handlers.onMessage(event.data);
+      };
+
+      socket.onerror = (error: Event) => {
+        if (this.socket !== socket) {
+          return;
+        }
+        if (!settled) {
+          settled = true;
+          reject(new Error('WebSocket connection failed'));
+          return;
+        }
+        this.handlers.onChannelError(error);
+      };
+
+      socket.onclose = (event: WebSocketCloseEvent) => {
+        if (this.socket !== socket) {
+          return;
+        }
+        log.info(`WebSocket closed (${event.code})`);
+        this.stopCapture();
+        this.socket = null;
+        if (!settled) {
+          settled = true;
+          reject(new Error(`WebSocket closed (${event.code})`));
+        }
+        // 1000 is a normal close from our side or the server ending the session
+        this.setState(event.code === 1000 ? 'closed' : 'disconnected');
+      };
+    });
+  }
+
+  send(data: string): boolean {
+    if (!this.isOpen()) {
+      return false;
+    }
+    this.socket!.send(data);
+    return true;
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WEBSOCKET_OPEN;
+  }
+
+  isConnected(): boolean {
+    return this.isOpen();
+  }
+
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+  }
+
+  clearPlayback(): void {
+    this.options.audioSink?.clear();
+  }
+
+  disconnect(): void {
+    this.stopCapture();
+    this.options.audioSink?.clear();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close(1000);
+    }
+  }
+
+  close(): void {
+    this.disconnect();
+  }
+
+  private async startCapture(): Promise<void> {
+    const {audioSource} = this.options;
+    if (!audioSource) {
+      audioLog.warn(
+        'WebSocket transport has no audio source; only typed messages will reach the model',
+      );
+      return;
+    }
+    if (this.isCapturing) {
+      return;
+    }
+    this.isCapturing = true;
+    try {
+      await audioSource.start(chunk => {
+        // A disabled mic (muted, push-to-talk released) simply stops streaming
+        if (this.microphoneEnabled) {
+          this.send(
+            JSON.stringify({type: 'input_audio_buffer.append', audio: chunk}),
+          );
+        }
+      });
+    } catch (error) {
+      this.isCapturing = false;
+      audioLog.error('Failed to start audio capture:', error);
+      this.handlers.onChannelError(error);
+    }
+  }
+
+  private stopCapture(): void {
+    if (this.isCapturing) {
+      this.isCapturing = false;
+      this.options.audioSource?.stop();
+    }
+  }
+
+  private playAudioDelta(data: string): void {
+    const {audioSink} = this.options;
+    // Cheap check first; only audio deltas need parsing here
+    if (!audioSink || !data.includes('"response.audio.delta"')) {
+      return;
+    }
+    try {
+      const event = JSON.parse(data);
+      if (event.type === 'response.audio.delta' && event.delta) {
+        audioSink.play(event.delta);
+      }
+    } catch (error) {
+      // The service reports malformed messages
+    }
+  }
+
+  private setState(state: TransportState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.handlers.onStateChange(state);
+    }
+  }
+}